@@ -0,0 +1,179 @@
+/*
+* Thin adapters between HTTP frameworks and the transport-neutral WebhookRequestHandler.
+* Express, plain node http servers, Koa and Fastify are supported. Koa and Fastify are not dependencies of this
+* library, so only the parts of their APIs used here are typed.
+* */
+
+import * as http from "http";
+import * as express from "express";
+import {Readable} from "stream";
+import concat = require("concat-stream");
+import {TwitchWebhookManager} from "./webhooks";
+import {WebhookResponse} from "./request_handler";
+import {WebhookType} from "./config";
+import {getEndpointPath} from "./util";
+
+//Reads the raw body of a request.
+function readBody(stream: Readable): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        stream.on('error', reject);
+        stream.pipe(concat({encoding: 'buffer'}, resolve));
+    });
+}
+
+function writeNodeResponse(res: http.ServerResponse, response: WebhookResponse) {
+    res.statusCode = response.status;
+    for (let name of Object.keys(response.headers)) {
+        res.setHeader(name, response.headers[name]);
+    }
+    res.end(response.body);
+}
+
+// Express middleware. Mount it on each webhook endpoint path (TwitchWebhookManager does this when config.app is set).
+// Note: the raw body is needed to verify signatures; If a body parser already consumed it, express.raw() must be used.
+function expressAdapter(manager: TwitchWebhookManager): express.RequestHandler {
+    return function twitchWebhookMiddleware(req: express.Request, res: express.Response, next: express.NextFunction) {
+        let body: Promise<Buffer> = Buffer.isBuffer(req.body) ? Promise.resolve(req.body) : readBody(req);
+        body.then((body) => manager.handleRequest({
+            method: req.method,
+            url: req.originalUrl,
+            headers: req.headers,
+            body: body
+        })).then((response) => writeNodeResponse(res, response), next);
+    };
+}
+
+// Request listener for http.createServer. Requests to paths that aren't webhook paths are passed to the fallback
+// listener if one is given, and get a 404 otherwise.
+function nodeHttpAdapter(manager: TwitchWebhookManager, fallback?: http.RequestListener): http.RequestListener {
+    return function twitchWebhookListener(req: http.IncomingMessage, res: http.ServerResponse) {
+        let url = new URL(<string>req.url, manager.config.hostname);
+        if (fallback && !manager.requestHandler.isWebhookPath(url.pathname)) {
+            return fallback(req, res);
+        }
+
+        readBody(req)
+            .then((body) => manager.handleRequest({
+                method: <string>req.method,
+                url: <string>req.url,
+                headers: req.headers,
+                body: body
+            }))
+            .then((response) => writeNodeResponse(res, response))
+            .catch((e) => {
+                manager.config.logger.error('Error while handling webhook request: ', e);
+                writeNodeResponse(res, {status: 500, headers: {}});
+            });
+    };
+}
+
+type KoaContext = {
+    req: http.IncomingMessage,
+    path: string,
+    method: string,
+    url: string,
+    headers: http.IncomingHttpHeaders,
+    status: number,
+    body: any,
+    set(field: string, value: string): void,
+    request: { rawBody?: string | Buffer }
+}
+
+// Koa middleware. Requests to paths that aren't webhook paths are passed down the middleware chain.
+// If a body parser runs before this middleware, it must keep the raw body (ctx.request.rawBody).
+function koaAdapter(manager: TwitchWebhookManager): (ctx: KoaContext, next: () => Promise<any>) => Promise<void> {
+    return async function twitchWebhookMiddleware(ctx: KoaContext, next: () => Promise<any>) {
+        if (!manager.requestHandler.isWebhookPath(ctx.path)) {
+            return next();
+        }
+
+        let rawBody = ctx.request.rawBody;
+        let response = await manager.handleRequest({
+            method: ctx.method,
+            url: ctx.url,
+            headers: ctx.headers,
+            body: rawBody !== undefined ? Buffer.from(rawBody) : await readBody(ctx.req)
+        });
+
+        ctx.status = response.status;
+        for (let name of Object.keys(response.headers)) {
+            ctx.set(name, response.headers[name]);
+        }
+        ctx.body = response.body !== undefined ? response.body : '';
+    };
+}
+
+type FastifyRequest = {
+    method: string,
+    url: string,
+    headers: http.IncomingHttpHeaders,
+    rawBody?: Buffer
+}
+
+type FastifyReply = {
+    code(statusCode: number): FastifyReply,
+    headers(values: { [key: string]: string }): FastifyReply,
+    send(payload?: any): FastifyReply
+}
+
+type FastifyInstance = {
+    addHook(name: 'preParsing', hook: (request: FastifyRequest, reply: FastifyReply, payload: Readable) => Promise<Readable>): void,
+    route(options: { method: string[], url: string, handler: (request: FastifyRequest, reply: FastifyReply) => Promise<void> }): void
+}
+
+// Fastify plugin; Register it with fastify.register(fastifyAdapter(manager)). The raw body is captured before
+// fastify parses it, so signatures can be verified.
+function fastifyAdapter(manager: TwitchWebhookManager): (fastify: FastifyInstance, options: any, done: (err?: Error) => void) => void {
+    return function twitchWebhookPlugin(fastify: FastifyInstance, _: any, done: (err?: Error) => void) {
+        fastify.addHook('preParsing', async (request, _, payload) => {
+            request.rawBody = await readBody(payload);
+            let replay = new Readable({
+                read() {
+                }
+            });
+            replay.push(request.rawBody);
+            replay.push(null);
+            return replay;
+        });
+
+        let handler = async (request: FastifyRequest, reply: FastifyReply) => {
+            let response = await manager.handleRequest({
+                method: request.method,
+                url: request.url,
+                headers: request.headers,
+                body: request.rawBody || Buffer.alloc(0)
+            });
+            reply.code(response.status).headers(response.headers).send(response.body);
+        };
+
+        for (let type of Object.keys(WebhookType).filter(x => !isNaN(Number(x)))) {
+            fastify.route({
+                method: ['GET', 'POST'],
+                url: getEndpointPath(manager.config.base_path, Number(type)),
+                handler: handler
+            });
+        }
+
+        for (let path of manager.requestHandler.getAdditionalPaths()) {
+            for (let url of [path, path + '/*']) {
+                fastify.route({
+                    method: ['GET', 'POST', 'DELETE'],
+                    url: url,
+                    handler: handler
+                });
+            }
+        }
+        done();
+    };
+}
+
+export {
+    expressAdapter,
+    nodeHttpAdapter,
+    koaAdapter,
+    fastifyAdapter,
+    KoaContext,
+    FastifyInstance,
+    FastifyRequest,
+    FastifyReply
+}
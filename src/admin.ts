@@ -0,0 +1,189 @@
+/*
+* Optional admin and health routes, mounted under base_path next to the webhook callbacks.
+* GET /_status reports subscription health (e.g. for liveness probes and dashboards); GET /_webhooks and
+* GET /_webhooks/:id list webhooks; POST /_webhooks/:id/resubscribe and DELETE /_webhooks/:id manage them, and are
+* only available when an authorize callback is configured. Webhook ids contain a query string, so :id must be URL encoded.
+* */
+
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookType} from "./config";
+import {WebhookPersistenceObject} from "./persistence";
+import {normalizeHeaders, WebhookRequest, WebhookResponse} from "./request_handler";
+import {describeWebhook, WebhookDescription} from "./util";
+
+const ADMIN_PATH_PREFIXES = ['/_status', '/_webhooks'];
+
+// Header names of the request are lower cased.
+type AdminAuthorizeCallback = (request: WebhookRequest) => boolean | Promise<boolean>;
+
+type AdminOptions = {
+    authorize?: AdminAuthorizeCallback, // Decides whether a request may use the admin routes. Without it, POST and DELETE routes are disabled.
+    authorizeReads?: boolean, // If true, GET /_webhooks routes also require authorization. GET /_status never does. Defaults to false.
+    expiringWithinSeconds?: number // Subscriptions expiring within this many seconds are counted as expiring. Defaults to 86400 (a day).
+}
+
+type WebhookStatus = {
+    healthy: boolean, // False if any subscribed webhook has lapsed
+    total: number,
+    byType: { [type: string]: number },
+    subscribed: number, // Verified, and not expired
+    pending: number, // Waiting for verification
+    expiring: number, // Subscribed, but expiring within expiringWithinSeconds
+    expired: number, // Subscribed, but the lease has lapsed
+    scheduled?: number // Webhooks with a scheduled renewal, if the renewal scheduler reports them
+}
+
+type AdminWebhookDescription = WebhookDescription & {
+    nextRenewal?: string // When the renewal scheduler will renew the webhook, if it reports it
+}
+
+class AdminRoutes {
+    readonly manager: TwitchWebhookManager;
+    readonly options: AdminOptions;
+
+    constructor(manager: TwitchWebhookManager, options: AdminOptions) {
+        this.manager = manager;
+        this.options = options;
+    }
+
+    isAdminPath(pathname: string): boolean {
+        let relativePath = this.getRelativePath(pathname);
+        return relativePath !== undefined &&
+            ADMIN_PATH_PREFIXES.some(prefix => relativePath === prefix || (<string>relativePath).indexOf(prefix + '/') === 0);
+    }
+
+    async handle(request: WebhookRequest, url: URL): Promise<WebhookResponse> {
+        let segments = (<string>this.getRelativePath(url.pathname)).split('/').slice(1);
+        let method = request.method.toUpperCase();
+
+        if (segments[0] === '_status' && segments.length === 1) {
+            if (method !== 'GET') {
+                return jsonResponse(405, {error: 'Method not allowed'}, {"Allow": "GET"});
+            }
+            return jsonResponse(200, await this.getStatus());
+        }
+
+        let webhookId = segments[1] !== undefined ? decodeURIComponent(segments[1]) : undefined;
+        let isResubscribe = segments.length === 3 && segments[2] === 'resubscribe';
+        if (segments[0] !== '_webhooks' || segments.length > 3 || (segments.length === 3 && !isResubscribe)) {
+            return jsonResponse(404, {error: 'Not found'});
+        }
+
+        let allowed = isResubscribe ? 'POST' : webhookId !== undefined ? 'GET, DELETE' : 'GET';
+        if (allowed.split(', ').indexOf(method) === -1) {
+            return jsonResponse(405, {error: 'Method not allowed'}, {"Allow": allowed});
+        }
+
+        if (method !== 'GET' || this.options.authorizeReads) {
+            if (!this.options.authorize) {
+                return jsonResponse(403, {error: 'Admin routes that change webhooks are disabled; Configure an authorize callback to enable them.'});
+            }
+            if (!await this.options.authorize(Object.assign({}, request, {headers: normalizeHeaders(request.headers)}))) {
+                return jsonResponse(401, {error: 'Unauthorized'});
+            }
+        }
+
+        if (webhookId === undefined) {
+            let webhooks = await this.manager.config.persistenceManager.getAllWebhooks();
+            return jsonResponse(200, webhooks.map(webhook => this.describe(webhook)));
+        }
+
+        let webhook = await this.manager.config.persistenceManager.getWebhookById(webhookId);
+        if (!webhook) {
+            return jsonResponse(404, {error: `Webhook with id ${webhookId} could not be found!`});
+        }
+
+        switch (method) {
+            case 'POST':
+                this.manager.config.logger.info(`Resubscribing to ${webhookId} through the admin routes.`);
+                await this.manager.resubscribePersistenceObject(webhook, 'admin');
+                return jsonResponse(202, {id: webhookId});
+            case 'DELETE':
+                this.manager.config.logger.info(`Unsubscribing from ${webhookId} through the admin routes.`);
+                await this.manager.unsubscribePersistenceObject(webhook);
+                return jsonResponse(202, {id: webhookId});
+            default:
+                return jsonResponse(200, this.describe(webhook));
+        }
+    }
+
+    async getStatus(): Promise<WebhookStatus> {
+        let now = Date.now();
+        let expiringBefore = now + (this.options.expiringWithinSeconds !== undefined ? this.options.expiringWithinSeconds : 86400) * 1000;
+        let status: WebhookStatus = {
+            healthy: true,
+            total: 0,
+            byType: {},
+            subscribed: 0,
+            pending: 0,
+            expiring: 0,
+            expired: 0
+        };
+        for (let type of Object.keys(WebhookType).filter(x => isNaN(Number(x)))) {
+            status.byType[type] = 0;
+        }
+
+        let scheduler = this.manager.config.renewalScheduler;
+        if (scheduler && scheduler.getScheduledRenewal) {
+            status.scheduled = 0;
+        }
+
+        for (let webhook of await this.manager.config.persistenceManager.getAllWebhooks()) {
+            status.total++;
+            status.byType[WebhookType[webhook.type]]++;
+            if (!webhook.subscribed) {
+                status.pending++;
+            } else if (webhook.subscriptionEnd && webhook.subscriptionEnd.getTime() <= now) {
+                status.expired++;
+            } else {
+                status.subscribed++;
+                if (webhook.subscriptionEnd && webhook.subscriptionEnd.getTime() <= expiringBefore) {
+                    status.expiring++;
+                }
+            }
+
+            if (status.scheduled !== undefined && this.getScheduledRenewal(webhook.id)) {
+                status.scheduled++;
+            }
+        }
+        status.healthy = status.expired === 0;
+        return status;
+    }
+
+    private describe(webhook: WebhookPersistenceObject): AdminWebhookDescription {
+        let description: AdminWebhookDescription = describeWebhook(webhook);
+        let nextRenewal = this.getScheduledRenewal(webhook.id);
+        if (nextRenewal) {
+            description.nextRenewal = nextRenewal.toISOString();
+        }
+        return description;
+    }
+
+    private getScheduledRenewal(webhookId: WebhookId): Date | undefined {
+        let scheduler = this.manager.config.renewalScheduler;
+        return scheduler && scheduler.getScheduledRenewal ? scheduler.getScheduledRenewal(webhookId) : undefined;
+    }
+
+    //Path relative to the base path, or undefined if the path isn't under the base path.
+    private getRelativePath(pathname: string): string | undefined {
+        let basePath = this.manager.config.base_path ? '/' + this.manager.config.base_path : '';
+        return pathname.indexOf(basePath + '/') === 0 ? pathname.substring(basePath.length) : undefined;
+    }
+}
+
+function jsonResponse(status: number, body: any, headers: { [key: string]: string } = {}): WebhookResponse {
+    return {
+        status: status,
+        headers: Object.assign({"Content-Type": "application/json"}, headers),
+        body: JSON.stringify(body)
+    };
+}
+
+export {
+    AdminRoutes,
+    AdminOptions,
+    AdminAuthorizeCallback,
+    AdminWebhookDescription,
+    WebhookStatus,
+    ADMIN_PATH_PREFIXES
+}
@@ -0,0 +1,184 @@
+/*
+* Code for subscribing to many webhooks at once (e.g. when onboarding hundreds of broadcasters).
+* Requests run with bounded concurrency, and pause while twitch reports the rate limit bucket as empty.
+* Every request gets its own result; A request that fails doesn't stop the others.
+* */
+
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookOptions, WebhookType} from "./config";
+import {
+    ChannelBanChangedSubParams,
+    ExtensionTransactionCreatedSubParams,
+    ModeratorChangedSubParams,
+    StreamChangedSubParams,
+    SubscriptionSubParams,
+    UserChangedSubParams,
+    UserFollowsSubParams
+} from "./payload_types";
+import {SubscriptionDeniedError, TwitchRequestError} from "./errors";
+
+type SubscriptionRequest =
+    { type: WebhookType.UserFollows, params: UserFollowsSubParams, options?: WebhookOptions } |
+    { type: WebhookType.StreamChanged, params: StreamChangedSubParams, options?: WebhookOptions } |
+    { type: WebhookType.UserChanged, params: UserChangedSubParams, options?: WebhookOptions } |
+    { type: WebhookType.ExtensionTransactionCreated, params: ExtensionTransactionCreatedSubParams, options?: WebhookOptions } |
+    { type: WebhookType.ModeratorChange, params: ModeratorChangedSubParams, options?: WebhookOptions } |
+    { type: WebhookType.ChannelBanChange, params: ChannelBanChangedSubParams, options?: WebhookOptions } |
+    { type: WebhookType.Subscription, params: SubscriptionSubParams, options?: WebhookOptions };
+
+type BulkSubscriptionOptions = {
+    concurrency?: number, // Maximum number of requests in flight. Defaults to 5.
+    awaitVerification?: boolean, // If true, each request waits until twitch verifies (or denies) it, so denials are reported per request. Defaults to false.
+    verificationTimeout?: number // Milliseconds to wait for a verification, with awaitVerification. Defaults to 30000.
+}
+
+type BulkSubscriptionResult = {
+    request: SubscriptionRequest,
+    ok: true,
+    webhookId: WebhookId,
+    verified?: boolean // Only set with awaitVerification; False if no verification arrived within verificationTimeout.
+} | {
+    request: SubscriptionRequest,
+    ok: false,
+    webhookId?: WebhookId, // Set if the request was accepted, but then denied.
+    error: TwitchRequestError | SubscriptionDeniedError | Error
+};
+
+type VerificationOutcome = true | SubscriptionDeniedError;
+
+function addSubscription(manager: TwitchWebhookManager, request: SubscriptionRequest): Promise<WebhookId> {
+    let options = request.options || {};
+    switch (request.type) {
+        case WebhookType.UserFollows:
+            return manager.addUserFollowsSubscription(options, request.params);
+        case WebhookType.StreamChanged:
+            return manager.addStreamChangedSubscription(options, request.params);
+        case WebhookType.UserChanged:
+            return manager.addUserChangedSubscription(options, request.params);
+        case WebhookType.ExtensionTransactionCreated:
+            return manager.addExtensionTransactionCreatedSubscription(options, request.params);
+        case WebhookType.ModeratorChange:
+            return manager.addModeratorChangedSubscription(options, request.params);
+        case WebhookType.ChannelBanChange:
+            return manager.addChannelBanChangedSubscription(options, request.params);
+        case WebhookType.Subscription:
+            return manager.addSubscriptionSubscription(options, request.params);
+    }
+}
+
+//Waits until twitch no longer reports the rate limit bucket as empty.
+async function waitForRateLimit(manager: TwitchWebhookManager): Promise<void> {
+    while (Date.now() < manager.rateLimitedUntil) {
+        manager.config.logger.info(`Rate limit bucket is empty; Pausing subscriptions until ${new Date(manager.rateLimitedUntil).toISOString()}`);
+        await new Promise((resolve) => setTimeout(resolve, manager.rateLimitedUntil - Date.now()));
+    }
+}
+
+//Subscribes to every request, running at most options.concurrency at once. Results are in the order of the requests.
+async function subscribeMany(manager: TwitchWebhookManager, requests: SubscriptionRequest[], options: BulkSubscriptionOptions = {}): Promise<BulkSubscriptionResult[]> {
+    let concurrency = Math.max(1, options.concurrency || 5);
+    let verificationTimeout = options.verificationTimeout !== undefined ? options.verificationTimeout : 30000;
+    manager.config.logger.info(`Subscribing to ${requests.length} webhooks (concurrency: ${concurrency})`);
+
+    //Verifications may arrive before the request that caused them resolves, so they are recorded from the start.
+    let outcomes = new Map<WebhookId, VerificationOutcome>();
+    let waiters = new Map<WebhookId, (outcome: VerificationOutcome) => void>();
+    let settle = (webhookId: WebhookId, outcome: VerificationOutcome) => {
+        outcomes.set(webhookId, outcome);
+        let waiter = waiters.get(webhookId);
+        if (waiter) {
+            waiter(outcome);
+        }
+    };
+    let onSubscribed = (webhookId: WebhookId) => settle(webhookId, true);
+    let onError = (e: any) => {
+        //SubscriptionDeniedErrors are the only errors carrying the webhook.
+        if (e && e.webhook) {
+            settle(e.webhook.id, e);
+        }
+    };
+
+    let waitForVerification = async (webhookId: WebhookId): Promise<VerificationOutcome | undefined> => {
+        let webhook = await manager.config.persistenceManager.getWebhookById(webhookId);
+        if (outcomes.has(webhookId) || (webhook && webhook.subscribed)) {
+            return outcomes.get(webhookId) || true;
+        }
+        let timeout: NodeJS.Timeout | undefined;
+        let outcome = await new Promise<VerificationOutcome | undefined>((resolve) => {
+            waiters.set(webhookId, resolve);
+            timeout = setTimeout(() => resolve(undefined), verificationTimeout);
+        });
+        clearTimeout(<NodeJS.Timeout>timeout);
+        waiters.delete(webhookId);
+        return outcome;
+    };
+
+    let subscribeOne = async (request: SubscriptionRequest): Promise<BulkSubscriptionResult> => {
+        let webhookId: WebhookId | undefined;
+        try {
+            webhookId = await addSubscription(manager, request);
+        } catch (e) {
+            if (!e || e.statusCode !== 429) {
+                return {request: request, ok: false, error: e};
+            }
+            //Retries are exhausted; Try once more after the bucket has been reset. The webhook was already persisted
+            //(unsubscribed), so adding it again only returns its id; It has to be resubscribed to.
+            await waitForRateLimit(manager);
+            try {
+                webhookId = await addSubscription(manager, request);
+                await manager.resubscribe(webhookId);
+            } catch (e) {
+                return {request: request, ok: false, webhookId: webhookId, error: e};
+            }
+        }
+
+        if (!options.awaitVerification) {
+            return {request: request, ok: true, webhookId: webhookId};
+        }
+        let outcome = await waitForVerification(webhookId);
+        if (outcome !== undefined && outcome !== true) {
+            return {request: request, ok: false, webhookId: webhookId, error: outcome};
+        }
+        return {request: request, ok: true, webhookId: webhookId, verified: outcome === true};
+    };
+
+    if (options.awaitVerification) {
+        manager.on('subscribed', onSubscribed);
+        manager.on('error', onError);
+    }
+
+    let results: BulkSubscriptionResult[] = new Array(requests.length);
+    let next = 0;
+    let worker = async () => {
+        while (next < requests.length) {
+            let index = next++;
+            await waitForRateLimit(manager);
+            let result = await subscribeOne(requests[index]);
+            results[index] = result;
+            if (result.ok === false) {
+                manager.config.logger.error(`Bulk subscription ${index} failed: `, result.error);
+            }
+        }
+    };
+
+    try {
+        let workers = [];
+        for (let i = 0; i < Math.min(concurrency, requests.length); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+    } finally {
+        manager.removeListener('subscribed', onSubscribed);
+        manager.removeListener('error', onError);
+    }
+
+    manager.config.logger.info(`Subscribed to ${results.filter(x => x.ok).length}/${requests.length} webhooks`);
+    return results;
+}
+
+export {
+    SubscriptionRequest,
+    BulkSubscriptionOptions,
+    BulkSubscriptionResult,
+    subscribeMany
+}
@@ -0,0 +1,289 @@
+#!/usr/bin/env node
+/*
+* Command-line tool for inspecting and managing persisted subscriptions.
+* The tool loads a module (--config) that exports the persistence manager used by the service, and optionally the
+* managerConfig needed to talk to twitch. Inspecting webhooks only needs the persistence manager.
+* */
+
+import * as path from "path";
+import {TwitchWebhookManager} from "./webhooks";
+import {TwitchWebhookManagerConfig} from "./config";
+import {TwitchWebhookPersistenceManager} from "./persistence";
+import {describeWebhook, WebhookDescription} from "./util";
+
+const USAGE = `Usage: twitch-webhooks --config <module> [--json] <command> [args]
+
+Commands:
+  list                          Lists all persisted webhooks
+  show <id>                     Shows a webhook, including its decoded topic parameters
+  expiring --within <duration>  Lists webhooks whose lease expires within the duration (e.g. 30m, 24h, 7d)
+  unsubscribe <id>              Unsubscribes from a webhook
+  unsubscribe-all               Unsubscribes from all webhooks
+  resubscribe <id>              Renews a webhook's subscription
+
+The config module must export a persistenceManager, and a managerConfig for unsubscribe/resubscribe.
+Hub (un)subscriptions are verified against the callback URL, so the service itself must be running for them to complete.`;
+
+// Exports expected from the --config module.
+type CliConfigModule = {
+    persistenceManager: TwitchWebhookPersistenceManager,
+    managerConfig?: TwitchWebhookManagerConfig // Config used to construct the manager; Its persistenceManager, app and renewalScheduler are ignored.
+}
+
+type CliContext = {
+    persistenceManager: TwitchWebhookPersistenceManager,
+    manager?: TwitchWebhookManager // Only needed for commands that talk to twitch.
+}
+
+type CliOutput = {
+    out: (line: string) => void,
+    err: (line: string) => void
+}
+
+const DURATION_REGEX = /^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/;
+const DURATION_UNIT_MS: { [unit: string]: number } = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+};
+
+//Parses durations like 90s, 30m, 24h or 7d into milliseconds; Plain numbers are seconds. Returns undefined if the duration cannot be parsed.
+function parseDuration(duration: string): number | undefined {
+    let match = DURATION_REGEX.exec(duration.trim());
+    if (match) {
+        return parseFloat(match[1]) * DURATION_UNIT_MS[match[2] || 's'];
+    }
+    return undefined;
+}
+
+function formatDuration(ms: number): string {
+    if (ms <= 0) {
+        return 'expired';
+    }
+    let minutes = Math.floor(ms / DURATION_UNIT_MS.m);
+    let days = Math.floor(minutes / (24 * 60));
+    let hours = Math.floor(minutes / 60) % 24;
+    if (days > 0) {
+        return `${days}d ${hours}h`;
+    }
+    return `${hours}h ${minutes % 60}m`;
+}
+
+function formatParams(params: any): string {
+    return Object.keys(params)
+        .filter(key => params[key] !== undefined && params[key] !== null)
+        .map(key => `${key}=${params[key]}`)
+        .join(', ');
+}
+
+function printWebhookTable(output: CliOutput, webhooks: WebhookDescription[]) {
+    if (webhooks.length === 0) {
+        output.out('No webhooks found.');
+        return;
+    }
+
+    let rows = [['TYPE', 'PARAMS', 'SUBSCRIBED', 'EXPIRES', 'TRANSPORT', 'ID']].concat(webhooks.map(webhook => [
+        webhook.type,
+        formatParams(webhook.params),
+        webhook.subscribed ? 'yes' : 'no',
+        webhook.expiresInSeconds !== undefined ? formatDuration(webhook.expiresInSeconds * 1000) : '-',
+        webhook.transport,
+        webhook.id
+    ]));
+    let widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    for (let row of rows) {
+        output.out(row.map((cell, column) => column === row.length - 1 ? cell : cell + ' '.repeat(widths[column] - cell.length)).join('  '));
+    }
+}
+
+function printWebhook(output: CliOutput, webhook: WebhookDescription) {
+    output.out(`Id:                 ${webhook.id}`);
+    output.out(`Type:               ${webhook.type}`);
+    output.out(`Transport:          ${webhook.transport}`);
+    output.out(`Params:             ${formatParams(webhook.params)}`);
+    output.out(`Subscribed:         ${webhook.subscribed ? 'yes' : 'no'}`);
+    output.out(`Subscription start: ${webhook.subscriptionStart || '-'}`);
+    output.out(`Subscription end:   ${webhook.subscriptionEnd || '-'}`);
+    output.out(`Expires in:         ${webhook.expiresInSeconds !== undefined ? formatDuration(webhook.expiresInSeconds * 1000) : '-'}`);
+    output.out(`Lease seconds:      ${webhook.leaseSeconds}`);
+    if (webhook.eventSubIds) {
+        output.out(`EventSub ids:       ${webhook.eventSubIds.join(', ')}`);
+    }
+    if (webhook.userId) {
+        output.out(`User id:            ${webhook.userId}`);
+    }
+}
+
+//Runs a single command (argv without the --config option); Resolves with the process exit code.
+async function runCommand(context: CliContext, argv: string[], output: CliOutput): Promise<number> {
+    let json = argv.indexOf('--json') !== -1;
+    let args = argv.filter(x => x !== '--json');
+    let command = args[0];
+
+    let requireManager = (): TwitchWebhookManager => {
+        if (!context.manager) {
+            throw new Error(`The ${command} command needs the config module to export a managerConfig.`);
+        }
+        return context.manager;
+    };
+
+    switch (command) {
+        case 'list': {
+            let webhooks = (await context.persistenceManager.getAllWebhooks()).map(x => describeWebhook(x));
+            if (json) {
+                output.out(JSON.stringify(webhooks, null, 2));
+            } else {
+                printWebhookTable(output, webhooks);
+            }
+            return 0;
+        }
+        case 'show': {
+            if (!args[1]) {
+                output.err(USAGE);
+                return 2;
+            }
+            let webhook = await context.persistenceManager.getWebhookById(args[1]);
+            if (!webhook) {
+                output.err(`Webhook with id ${args[1]} could not be found!`);
+                return 1;
+            }
+            if (json) {
+                output.out(JSON.stringify(describeWebhook(webhook), null, 2));
+            } else {
+                printWebhook(output, describeWebhook(webhook));
+            }
+            return 0;
+        }
+        case 'expiring': {
+            let withinIndex = args.indexOf('--within');
+            let within = withinIndex !== -1 && args[withinIndex + 1] ? parseDuration(args[withinIndex + 1]) : undefined;
+            if (within === undefined) {
+                output.err(USAGE);
+                return 2;
+            }
+            let now = Date.now();
+            let webhooks = (await context.persistenceManager.getAllWebhooks())
+                .filter(x => x.subscriptionEnd && x.subscriptionEnd.getTime() <= now + <number>within)
+                .sort((a, b) => (<Date>a.subscriptionEnd).getTime() - (<Date>b.subscriptionEnd).getTime())
+                .map(x => describeWebhook(x, now));
+            if (json) {
+                output.out(JSON.stringify(webhooks, null, 2));
+            } else {
+                printWebhookTable(output, webhooks);
+            }
+            return 0;
+        }
+        case 'unsubscribe':
+        case 'resubscribe': {
+            if (!args[1]) {
+                output.err(USAGE);
+                return 2;
+            }
+            let manager = requireManager();
+            if (command === 'unsubscribe') {
+                await manager.unsubscribe(args[1]);
+            } else {
+                await manager.resubscribe(args[1]);
+            }
+            if (json) {
+                output.out(JSON.stringify({id: args[1], ok: true}, null, 2));
+            } else {
+                output.out(`${command === 'unsubscribe' ? 'Unsubscribe' : 'Resubscribe'} request for ${args[1]} accepted.`);
+            }
+            return 0;
+        }
+        case 'unsubscribe-all': {
+            let manager = requireManager();
+            //Not using unsubFromAll; It waits for the hub to verify each unsubscription through the running service.
+            let results: { id: string, ok: boolean, error?: string }[] = [];
+            for (let webhook of await context.persistenceManager.getAllWebhooks()) {
+                try {
+                    await manager.unsubscribePersistenceObject(webhook);
+                    results.push({id: webhook.id, ok: true});
+                } catch (e) {
+                    results.push({id: webhook.id, ok: false, error: e.message});
+                }
+            }
+            if (json) {
+                output.out(JSON.stringify(results, null, 2));
+            } else {
+                for (let result of results) {
+                    output.out(result.ok ? `Unsubscribe request for ${result.id} accepted.` : `Failed to unsubscribe from ${result.id}: ${result.error}`);
+                }
+                output.out(`${results.filter(x => x.ok).length}/${results.length} unsubscribe requests accepted.`);
+            }
+            return results.every(x => x.ok) ? 0 : 1;
+        }
+        case 'help':
+        case undefined:
+            output.out(USAGE);
+            return 0;
+        default:
+            output.err(`Unknown command: ${command}`);
+            output.err(USAGE);
+            return 2;
+    }
+}
+
+//Loads the --config module, resolved relative to the working directory.
+function loadCliContext(modulePath: string): CliContext {
+    let loaded = require(path.resolve(process.cwd(), modulePath));
+    let configModule: CliConfigModule = loaded && loaded.persistenceManager ? loaded : loaded && loaded.default;
+    if (!configModule || !configModule.persistenceManager) {
+        throw new Error(`${modulePath} does not export a persistenceManager.`);
+    }
+
+    let context: CliContext = {
+        persistenceManager: configModule.persistenceManager
+    };
+    if (configModule.managerConfig) {
+        context.manager = new TwitchWebhookManager(Object.assign({}, configModule.managerConfig, {
+            persistenceManager: configModule.persistenceManager,
+            app: undefined,
+            renewalScheduler: undefined
+        }));
+    }
+    return context;
+}
+
+async function main(argv: string[]): Promise<number> {
+    let output: CliOutput = {
+        out: (line) => console.log(line),
+        err: (line) => console.error(line)
+    };
+
+    let configIndex = argv.indexOf('--config');
+    if (configIndex === -1 || !argv[configIndex + 1]) {
+        output.err(USAGE);
+        return 2;
+    }
+    let context = loadCliContext(argv[configIndex + 1]);
+    try {
+        return await runCommand(context, argv.filter((_, i) => i !== configIndex && i !== configIndex + 1), output);
+    } finally {
+        if (context.manager) {
+            await context.manager.destroy();
+        } else {
+            await context.persistenceManager.destroy();
+        }
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2))
+        .then((code) => process.exit(code))
+        .catch((e) => {
+            console.error(e.message);
+            process.exit(1);
+        });
+}
+
+export {
+    runCommand,
+    loadCliContext,
+    parseDuration,
+    CliContext,
+    CliOutput,
+    CliConfigModule
+}
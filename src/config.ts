@@ -1,6 +1,17 @@
 import {Application} from "express";
 import {WebhookRenewalScheduler} from "./scheduling";
 import {TwitchWebhookPersistenceManager} from "./persistence";
+import {RetryPolicy} from "./retry";
+import {NotificationIdStore} from "./deduplication";
+import {ReconcileOptions} from "./reconciliation";
+import {AdminOptions} from "./admin";
+import {MetricsOptions} from "./metrics";
+import {NotificationJournalStore} from "./journal";
+import {DeadLetterStore} from "./handlers";
+import {PayloadValidationMode} from "./validation";
+import {StreamStateStore} from "./stream_state";
+import {OAuthTokenProvider} from "./tokens";
+import {WebhookMigrationRegistry} from "./migrations";
 
 type Logger = {
     debug: (message?:any, ...args: any[]) => void, //Debug messages (very verbose)
@@ -10,21 +21,38 @@ type Logger = {
 
 type TwitchWebhookManagerConfig = {
     hostname: string, // Hostname. Used in computation of the callback URL that subscribes to events
-    app: Application, // Express application to add REST endpoints to.
+    app?: Application, // Express application to add REST endpoints to. If omitted, requests must be passed to the manager through one of the adapters in adapters.ts.
     client_id: string, // Client id associated with the OAuth token
-    getOAuthToken: GetOAuthTokenCallback, // Returns the OAuth token (wrapped in a promise; this is asynchronous). If userId is undefined, then it may be an application token or any user token.
-    refreshOAuthToken: RefreshOAuthTokenCallback, // Refreshes the OAuth token; Returns the updated OAuth token (wrapped in a promise; this is asynchronous). Takes failed oauth token as a parameter
+    getOAuthToken?: GetOAuthTokenCallback, // Returns the OAuth token (wrapped in a promise; this is asynchronous). If userId is undefined, then it may be an application token or any user token. Required unless tokenProvider is set.
+    refreshOAuthToken?: RefreshOAuthTokenCallback, // Refreshes the OAuth token; Returns the updated OAuth token (wrapped in a promise; this is asynchronous). Takes failed oauth token as a parameter. Required unless tokenProvider is set.
+    tokenProvider?: OAuthTokenProvider, // Gets and refreshes OAuth tokens, instead of getOAuthToken and refreshOAuthToken. See tokens.ts.
     base_path?: string, // Base path for the webhook "namespace". The full path is computed as ${hostname}/${base_path}/${endpoint_name}. If not specified, the base_path is omitted
     secret?: string, // default secret to use for hub.secret. If none is provided, a cryptographically secure random string is constructed to be used.
     renewalScheduler?: WebhookRenewalScheduler; // Rescheduler; If none is provided, then webhooks will not be renewed.
     persistenceManager?: TwitchWebhookPersistenceManager; // Persistence manager; If none is provided, an IN-MEMORY persistence manager will be used.
     hubUrl?: string; // Configurable hub URL - useful for testing with a mocked hub. Defaults to twitch's actual hub URL
+    transport?: WebhookTransport; // Default transport used for new subscriptions. Defaults to WebSub (the legacy webhook hub).
+    eventSubUrl?: string; // Configurable EventSub subscriptions URL - useful for testing with a mocked API. Defaults to twitch's actual EventSub URL
+    retryPolicy?: Partial<RetryPolicy>; // Retry policy for subscribe, renew and unsubscribe calls. Unspecified fields use DEFAULT_RETRY_POLICY.
+    deduplicationWindowSeconds?: number; // Notifications with an already seen notification id are dropped for this many seconds. Defaults to 600; 0 disables de-duplication.
+    notificationIdStore?: NotificationIdStore; // Store for seen notification ids. Defaults to an in-memory LRU store.
+    notificationToleranceSeconds?: number; // If set, notifications with a timestamp older than this are rejected as replays.
+    webhookSubscriptionsUrl?: string; // Configurable URL for listing active hub subscriptions - useful for testing with a mocked hub. Defaults to twitch's actual URL
+    reconcileOnInit?: boolean | ReconcileOptions; // If set, init() reconciles persisted webhooks against twitch's active subscriptions. See reconciliation.ts.
+    admin?: AdminOptions; // If set, admin and health routes are served under base_path. See admin.ts.
+    metrics?: MetricsOptions; // Where metrics are recorded, and whether they are served. See metrics.ts.
+    journal?: NotificationJournalStore; // If set, every verified notification is journaled, and can be replayed. See journal.ts.
+    deadLetterStore?: DeadLetterStore; // Store for payloads registered handlers failed to handle. Defaults to an in-memory store. See handlers.ts.
+    payloadValidation?: PayloadValidationMode; // How WebSub payloads that don't match their declared type are handled. Defaults to 'lenient'. See validation.ts.
+    streamStateStore?: StreamStateStore; // Store for the last known state of each stream, used for stream lifecycle events. Defaults to an in-memory store. See stream_state.ts.
+    secretGracePeriodSeconds?: number; // How long the previous secret of a webhook is still accepted after rotateSecret(). Defaults to 600. See secrets.ts.
+    migrations?: WebhookMigrationRegistry; // Migrations init() applies to webhooks persisted with an older schema version. Defaults to the built-in migrations. See migrations.ts.
     logger?: Logger // Logging interface; if undefined, a 'no-op' logger will be used. Compatible with the default 'console' object.
 }
 
 type TwitchWebhookManagerConfig_Internal = {
     hostname: string,
-    app: Application,
+    app?: Application,
     client_id: string,
     getOAuthToken: GetOAuthTokenCallback,
     refreshOAuthToken: RefreshOAuthTokenCallback,
@@ -33,6 +61,22 @@ type TwitchWebhookManagerConfig_Internal = {
     renewalScheduler?: WebhookRenewalScheduler;
     persistenceManager: TwitchWebhookPersistenceManager;
     hubUrl: string,
+    transport: WebhookTransport,
+    eventSubUrl: string,
+    retryPolicy: RetryPolicy,
+    deduplicationWindowSeconds: number,
+    notificationIdStore: NotificationIdStore,
+    notificationToleranceSeconds?: number,
+    webhookSubscriptionsUrl: string,
+    reconcileOnInit?: boolean | ReconcileOptions,
+    admin?: AdminOptions,
+    metrics?: MetricsOptions,
+    journal?: NotificationJournalStore,
+    deadLetterStore: DeadLetterStore,
+    payloadValidation: PayloadValidationMode,
+    streamStateStore: StreamStateStore,
+    secretGracePeriodSeconds: number,
+    migrations: WebhookMigrationRegistry,
     logger: Logger
 }
 
@@ -42,6 +86,13 @@ type RefreshOAuthTokenCallback = (token: string) => Promise<string>;
 type WebhookOptions = {
     secret?: string; // Secret for this webhook. Defaults to the TwitchWebhookManagerConfig's secret.
     leaseSeconds?: number; // Seconds to subscribe for this webhook, between 0 and 864000 (inc). Defaults to 864000
+    transport?: WebhookTransport; // Transport to subscribe with. Defaults to the TwitchWebhookManagerConfig's transport.
+}
+
+// Twitch is moving from the WebSub hub to EventSub; Both may be used side by side during the migration.
+enum WebhookTransport {
+    WebSub = "websub",
+    EventSub = "eventsub"
 }
 
 enum WebhookType {
@@ -75,11 +126,13 @@ WebhookTypeTopic.set(WebhookType.Subscription, "https://api.twitch.tv/helix/subs
 
 export {
     WebhookType,
+    WebhookTransport,
     WebhookTypeTopic,
     WebhookTypeEndpoint,
     WebhookOptions,
     TwitchWebhookManagerConfig,
     TwitchWebhookManagerConfig_Internal,
     GetOAuthTokenCallback,
-    RefreshOAuthTokenCallback
+    RefreshOAuthTokenCallback,
+    Logger
 }
\ No newline at end of file
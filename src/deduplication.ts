@@ -0,0 +1,44 @@
+/*
+* Code for de-duplicating notifications.
+* Twitch may deliver the same notification more than once; Each delivery carries the same notification id, so ids
+* that were already seen are remembered for a configurable window.
+* */
+
+interface NotificationIdStore {
+    // Records the notification id as seen until expiresAt. Resolves to true if the id was already seen (and not expired).
+    checkAndRecord(notificationId: string, expiresAt: Date): Promise<boolean>;
+
+    destroy(): Promise<void>;
+}
+
+// Default store; Keeps up to maxSize ids in memory, evicting the least recently seen id first.
+class MemoryLRUNotificationIdStore implements NotificationIdStore {
+    readonly maxSize: number;
+    // Maps are iterated in insertion order, so the first key is always the least recently seen id.
+    ids: Map<string, number> = new Map<string, number>();
+
+    constructor(maxSize: number = 10000) {
+        this.maxSize = maxSize;
+    }
+
+    async checkAndRecord(notificationId: string, expiresAt: Date): Promise<boolean> {
+        let previousExpiry = this.ids.get(notificationId);
+        let seen = previousExpiry !== undefined && previousExpiry > Date.now();
+
+        this.ids.delete(notificationId);
+        this.ids.set(notificationId, expiresAt.getTime());
+        if (this.ids.size > this.maxSize) {
+            this.ids.delete(<string>this.ids.keys().next().value);
+        }
+        return seen;
+    }
+
+    async destroy(): Promise<void> {
+        this.ids.clear();
+    }
+}
+
+export {
+    NotificationIdStore,
+    MemoryLRUNotificationIdStore
+}
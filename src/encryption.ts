@@ -0,0 +1,155 @@
+/*
+* Encryption at rest for webhook secrets.
+* EncryptedTwitchWebhookPersistenceManager wraps any TwitchWebhookPersistenceManager, and encrypts the secret (and
+* previousSecret) of every webhook with AES-256-GCM before it reaches the underlying backend. Each encrypted value
+* names the key it was encrypted with, so the key can be changed: Old values stay readable as long as the key provider
+* still returns their key, and reencryptAll() moves every webhook to the current key.
+* */
+
+import * as crypto from "crypto";
+import {WebhookId} from "./webhooks";
+import {delegateLeases, TwitchWebhookPersistenceManager, WebhookPersistenceObject} from "./persistence";
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+type SecretEncryptionKey = {
+    id: string, // Stored alongside every value encrypted with the key; May not contain ':'
+    key: Buffer // 32 bytes
+}
+
+// Called without a key id for the key to encrypt with, and with the id stored in an encrypted value to decrypt it.
+// Resolves to undefined if the key with that id is no longer available.
+type SecretKeyProvider = (keyId?: string) => Promise<SecretEncryptionKey | undefined>;
+
+function encryptSecret(secret: string, key: SecretEncryptionKey): string {
+    let iv = crypto.randomBytes(12);
+    let cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, key.key, iv);
+    let ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + [key.id, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+//Returns the id of the key the value was encrypted with, or undefined if the value is plaintext.
+function getSecretKeyId(value: string): string | undefined {
+    if (value.indexOf(ENCRYPTED_PREFIX) !== 0) {
+        return undefined;
+    }
+    return value.substring(ENCRYPTED_PREFIX.length).split(':')[0];
+}
+
+//Throws if the value was tampered with, or wasn't encrypted with the key.
+function decryptSecret(value: string, key: SecretEncryptionKey): string {
+    let [, iv, tag, ciphertext] = value.substring(ENCRYPTED_PREFIX.length).split(':');
+    let decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+class EncryptedTwitchWebhookPersistenceManager implements TwitchWebhookPersistenceManager {
+    readonly persistenceManager: TwitchWebhookPersistenceManager;
+    readonly keyProvider: SecretKeyProvider;
+    acquireLease?: (key: string, ownerId: string, ttl: number) => Promise<boolean>;
+    releaseLease?: (key: string, ownerId: string) => Promise<void>;
+
+    constructor(persistenceManager: TwitchWebhookPersistenceManager, keyProvider: SecretKeyProvider) {
+        this.persistenceManager = persistenceManager;
+        this.keyProvider = keyProvider;
+        delegateLeases(this, persistenceManager);
+    }
+
+    async deleteWebhook(webhookId: WebhookId): Promise<void> {
+        return this.persistenceManager.deleteWebhook(webhookId);
+    }
+
+    async destroy(): Promise<void> {
+        return this.persistenceManager.destroy();
+    }
+
+    async getAllWebhooks(): Promise<WebhookPersistenceObject[]> {
+        let webhooks = await this.persistenceManager.getAllWebhooks();
+        return Promise.all(webhooks.map(webhook => this.decrypt(webhook)));
+    }
+
+    async getWebhookById(webhookId: WebhookId): Promise<WebhookPersistenceObject | undefined> {
+        let webhook = await this.persistenceManager.getWebhookById(webhookId);
+        return webhook ? this.decrypt(webhook) : undefined;
+    }
+
+    async persistWebhook(webhook: WebhookPersistenceObject): Promise<void> {
+        return this.persistenceManager.persistWebhook(this.encrypt(webhook, await this.getCurrentKey()));
+    }
+
+    async saveWebhook(webhook: WebhookPersistenceObject): Promise<void> {
+        return this.persistenceManager.saveWebhook(this.encrypt(webhook, await this.getCurrentKey()));
+    }
+
+    // Re-encrypts every webhook whose secrets aren't encrypted with the current key (including plaintext secrets
+    // stored before encryption was enabled). Resolves with the number of webhooks re-encrypted.
+    async reencryptAll(): Promise<number> {
+        let key = await this.getCurrentKey();
+        let reencrypted = 0;
+        for (let webhook of await this.persistenceManager.getAllWebhooks()) {
+            let secrets = [webhook.secret, webhook.previousSecret].filter(x => x !== undefined);
+            if (secrets.every(secret => getSecretKeyId(<string>secret) === key.id)) {
+                continue;
+            }
+            await this.persistenceManager.saveWebhook(this.encrypt(await this.decrypt(webhook), key));
+            reencrypted++;
+        }
+        return reencrypted;
+    }
+
+    private async getCurrentKey(): Promise<SecretEncryptionKey> {
+        let key = await this.keyProvider();
+        if (!key) {
+            throw new Error('The key provider did not provide a key to encrypt secrets with!');
+        }
+        if (key.id.indexOf(':') !== -1 || key.key.length !== 32) {
+            throw new Error(`Secret encryption key ${key.id} is invalid; Its id may not contain ':', and it must be 32 bytes long.`);
+        }
+        return key;
+    }
+
+    //Encrypts a copy; The webhook passed in keeps its plaintext secrets.
+    private encrypt(webhook: WebhookPersistenceObject, key: SecretEncryptionKey): WebhookPersistenceObject {
+        let encrypted = Object.assign({}, webhook);
+        encrypted.secret = encryptSecret(webhook.secret, key);
+        if (webhook.previousSecret !== undefined) {
+            encrypted.previousSecret = encryptSecret(webhook.previousSecret, key);
+        }
+        return encrypted;
+    }
+
+    private async decrypt(webhook: WebhookPersistenceObject): Promise<WebhookPersistenceObject> {
+        let decrypted = Object.assign({}, webhook);
+        decrypted.secret = await this.decryptValue(webhook.id, webhook.secret);
+        if (webhook.previousSecret !== undefined) {
+            decrypted.previousSecret = await this.decryptValue(webhook.id, webhook.previousSecret);
+        }
+        return decrypted;
+    }
+
+    private async decryptValue(webhookId: WebhookId, value: string): Promise<string> {
+        let keyId = getSecretKeyId(value);
+        if (keyId === undefined) {
+            //Stored before encryption was enabled.
+            return value;
+        }
+
+        let key = await this.keyProvider(keyId);
+        if (!key) {
+            throw new Error(`Key ${keyId} for the secret of webhook ${webhookId} is not available!`);
+        }
+        try {
+            return decryptSecret(value, key);
+        } catch (e) {
+            throw new Error(`Failed to decrypt the secret of webhook ${webhookId} with key ${keyId}: ${e.message}`);
+        }
+    }
+}
+
+export {
+    SecretEncryptionKey,
+    SecretKeyProvider,
+    EncryptedTwitchWebhookPersistenceManager
+}
@@ -1,6 +1,8 @@
 import {IncomingMessage} from 'http'
 import {WebhookPersistenceObject} from "./persistence";
 import {unixTimestampToDate} from "./util";
+import {WebhookId} from "./webhooks";
+import {WebhookType} from "./config";
 
 class TwitchRequestError extends Error {
     statusCode: number;
@@ -26,7 +28,8 @@ class UnauthorizedTwitchRequestError extends TwitchRequestError {
 
     constructor(headers: { [key: string]: any }, responseBody: { [key: string]: any }) {
         super(401, headers, "OAuth token was rejected (after a refresh attempted).", responseBody);
-        let authHeader = headers["WWW-Authenticate"];
+        //Header names are lower cased by createErrorFromResponse.
+        let authHeader: string = headers["www-authenticate"] || headers["WWW-Authenticate"] || '';
         let headerParams: any = {};
         authHeader.split(',').forEach((str: string) => {
             let sides = str.split('=');
@@ -49,11 +52,14 @@ class RateLimitHitTwitchRequestError extends TwitchRequestError {
     constructor(headers: { [key: string]: any }, responseBody: { [key: string]: any }) {
         super(429, headers, "Rate limit hit; Wait for bucket to refill to make more requests!", responseBody);
         this.refillRate = Number.parseInt(headers["ratelimit-limit"]);
-        this.limitReset = unixTimestampToDate(headers["ratelimit-reset"]) || new Date(0);
-        if (!this.limitReset) {
+        //Helix sends the reset time as a unix epoch timestamp (in seconds).
+        let resetSeconds = Number.parseInt(headers["ratelimit-reset"]);
+        let limitReset = !isNaN(resetSeconds) ? new Date(resetSeconds * 1000) : unixTimestampToDate(headers["ratelimit-reset"]);
+        if (!limitReset) {
             console.error("While creating rate limit error, couldn't parse timestamp!");
-            this.limitReset = new Date(0);
+            limitReset = new Date(0);
         }
+        this.limitReset = limitReset;
     }
 }
 
@@ -95,10 +101,71 @@ class SubscriptionDeniedError extends Error {
     }
 }
 
+type SignatureFailureReason = 'missing' | 'unsupported_algorithm' | 'mismatch';
+
+//A notification was rejected because its signature could not be verified (possibly a forged delivery).
+class SignatureVerificationError extends Error {
+    reason: SignatureFailureReason;
+    webhookId?: WebhookId;
+
+    constructor(reason: SignatureFailureReason, webhookId?: WebhookId) {
+        super(`Signature verification failed (${reason}) for webhook ${webhookId}`);
+        this.reason = reason;
+        this.webhookId = webhookId;
+    }
+}
+
+//A notification was rejected because it is older than the configured tolerance (possibly a replayed delivery).
+class StaleNotificationError extends Error {
+    toleranceSeconds: number;
+    timestamp?: Date; // Undefined if the notification had no (parseable) timestamp
+    webhookId?: WebhookId;
+
+    constructor(toleranceSeconds: number, timestamp?: Date, webhookId?: WebhookId) {
+        super(`Notification for webhook ${webhookId} is older than ${toleranceSeconds} seconds (timestamp: ${timestamp ? timestamp.toISOString() : 'none'})`);
+        this.toleranceSeconds = toleranceSeconds;
+        this.timestamp = timestamp;
+        this.webhookId = webhookId;
+    }
+}
+
+//A message stream's buffer filled up before its payloads were consumed (see OverflowPolicy).
+class MessageBufferOverflowError extends Error {
+    bufferSize: number;
+
+    constructor(bufferSize: number) {
+        super(`Message stream buffer overflowed; ${bufferSize} payloads were waiting to be consumed`);
+        this.bufferSize = bufferSize;
+    }
+}
+
+//A notification payload doesn't match its declared type (see validation.ts).
+class PayloadValidationError extends Error {
+    webhookType: WebhookType;
+    path: string; // Path of the offending field, e.g. data.event_data.user_id
+    expected: string;
+    actual: string;
+    webhookId?: WebhookId;
+
+    constructor(webhookType: WebhookType, path: string, expected: string, actual: string, webhookId?: WebhookId) {
+        super(`Invalid ${WebhookType[webhookType]} payload: Expected ${path} to be ${expected}, but got ${actual}`);
+        this.webhookType = webhookType;
+        this.path = path;
+        this.expected = expected;
+        this.actual = actual;
+        this.webhookId = webhookId;
+    }
+}
+
 export {
     createErrorFromResponse,
     TwitchRequestError,
     RateLimitHitTwitchRequestError,
     UnauthorizedTwitchRequestError,
-    SubscriptionDeniedError
+    SubscriptionDeniedError,
+    SignatureFailureReason,
+    SignatureVerificationError,
+    StaleNotificationError,
+    MessageBufferOverflowError,
+    PayloadValidationError
 }
\ No newline at end of file
@@ -0,0 +1,330 @@
+/*
+* Code for the EventSub transport.
+* EventSub replaces the WebSub hub; Subscriptions are created through the EventSub subscriptions API, and
+* notifications/challenges are delivered as signed POST requests to the same callback URLs the hub uses.
+* */
+
+import * as crypto from "crypto";
+import got from 'got';
+import {WebhookType} from "./config";
+import {WebhookPersistenceObject} from "./persistence";
+import {TwitchWebhookManager} from "./webhooks";
+import {createErrorFromResponse, TwitchRequestError} from "./errors";
+import {getWebhookParamsFromId, updateRateLimit} from "./util";
+import {ModeratorEventType, SubscriptionEventType} from "./payload_types";
+import {timingSafeEqualStrings} from "./verification";
+
+const TWITCH_EVENTSUB_URL = "https://api.twitch.tv/helix/eventsub/subscriptions";
+
+const EVENTSUB_MESSAGE_ID_HEADER = "Twitch-Eventsub-Message-Id";
+const EVENTSUB_MESSAGE_TIMESTAMP_HEADER = "Twitch-Eventsub-Message-Timestamp";
+const EVENTSUB_MESSAGE_SIGNATURE_HEADER = "Twitch-Eventsub-Message-Signature";
+const EVENTSUB_MESSAGE_TYPE_HEADER = "Twitch-Eventsub-Message-Type";
+
+enum EventSubMessageType {
+    Verification = "webhook_callback_verification",
+    Notification = "notification",
+    Revocation = "revocation"
+}
+
+type EventSubTopic = {
+    type: string,
+    version: string
+}
+
+type EventSubSubscription = {
+    id: string,
+    status: string,
+    type: string,
+    version: string,
+    condition: { [key: string]: string },
+    created_at: string
+}
+
+type EventSubMessage = {
+    subscription: EventSubSubscription,
+    challenge?: string,
+    event?: { [key: string]: any }
+}
+
+// Some webhook types cover several EventSub subscription types (e.g. stream changed => online + offline);
+// All of them are delivered to the webhook's callback URL.
+const WebhookTypeEventSubTopics: Map<WebhookType, EventSubTopic[]> = new Map<WebhookType, EventSubTopic[]>();
+WebhookTypeEventSubTopics.set(WebhookType.UserFollows, [{type: "channel.follow", version: "1"}]);
+WebhookTypeEventSubTopics.set(WebhookType.StreamChanged, [{type: "stream.online", version: "1"}, {
+    type: "stream.offline",
+    version: "1"
+}]);
+WebhookTypeEventSubTopics.set(WebhookType.UserChanged, [{type: "user.update", version: "1"}]);
+WebhookTypeEventSubTopics.set(WebhookType.ExtensionTransactionCreated, [{
+    type: "extension.bits_transaction.create",
+    version: "1"
+}]);
+WebhookTypeEventSubTopics.set(WebhookType.ModeratorChange, [{type: "channel.moderator.add", version: "1"}, {
+    type: "channel.moderator.remove",
+    version: "1"
+}]);
+WebhookTypeEventSubTopics.set(WebhookType.ChannelBanChange, [{type: "channel.ban", version: "1"}, {
+    type: "channel.unban",
+    version: "1"
+}]);
+WebhookTypeEventSubTopics.set(WebhookType.Subscription, [{type: "channel.subscribe", version: "1"}, {
+    type: "channel.subscription.end",
+    version: "1"
+}, {
+    type: "channel.subscription.message",
+    version: "1"
+}]);
+
+//Gets the EventSub condition for the webhook. Throws if the webhook's parameters cannot be expressed through EventSub.
+function getEventSubCondition(webhook: WebhookPersistenceObject): { [key: string]: string } {
+    let params: { [key: string]: string | undefined } = getWebhookParamsFromId(webhook.type, webhook.id);
+    switch (webhook.type) {
+        case WebhookType.UserFollows:
+            if (!params.to_id) {
+                throw new Error("EventSub follow subscriptions require a to_id!");
+            }
+            return {broadcaster_user_id: params.to_id};
+        case WebhookType.StreamChanged:
+            return {broadcaster_user_id: <string>params.user_id};
+        case WebhookType.UserChanged:
+            return {user_id: <string>params.user_id};
+        case WebhookType.ExtensionTransactionCreated:
+            return {extension_client_id: <string>params.extension_id};
+        case WebhookType.ModeratorChange:
+        case WebhookType.ChannelBanChange:
+        case WebhookType.Subscription:
+            if (params.user_id || params.gifter_id || params.gifter_name) {
+                throw new Error("EventSub subscriptions cannot be filtered by user_id, gifter_id or gifter_name!");
+            }
+            return {broadcaster_user_id: <string>params.broadcaster_id};
+        default:
+            throw new Error(`Webhook type ${webhook.type} is not supported through EventSub!`);
+    }
+}
+
+//Verifies the EventSub signature, which is computed over the message id, timestamp and raw body.
+function verifyEventSubSignature(secret: string, messageId: string, timestamp: string, body: Buffer, signature: string): boolean {
+    let expected = 'sha256=' + crypto.createHmac('sha256', secret)
+        .update(messageId + timestamp)
+        .update(body)
+        .digest('hex');
+    return timingSafeEqualStrings(expected, signature);
+}
+
+//Creates every EventSub subscription backing the webhook. Resolves with the id of each created subscription;
+//subscriptions that already exist (409 Conflict) resolve to undefined. Any other response but a 2xx throws.
+async function createEventSubSubscriptions(webhook: WebhookPersistenceObject, manager: TwitchWebhookManager,
+                                           callbackUrl: string, oAuthToken: string): Promise<(string | undefined)[]> {
+    let condition = getEventSubCondition(webhook);
+    let ids: (string | undefined)[] = [];
+    for (let topic of <EventSubTopic[]>WebhookTypeEventSubTopics.get(webhook.type)) {
+        let body = {
+            type: topic.type,
+            version: topic.version,
+            condition: condition,
+            transport: {
+                method: "webhook",
+                callback: callbackUrl,
+                secret: webhook.secret
+            }
+        };
+
+        manager.config.logger.debug(`Making EventSub request with: `, body);
+        let resp = await doEventSubRequest(manager, 'POST', manager.config.eventSubUrl, body, oAuthToken);
+        if (resp.statusCode === 409) {
+            manager.config.logger.info(`EventSub subscription ${topic.type} for ${webhook.id} already exists.`);
+            ids.push(undefined);
+        } else if (Math.floor(resp.statusCode / 100) === 2) {
+            ids.push(JSON.parse(resp.body).data[0].id);
+        } else {
+            //doEventSubRequest lets 404s through for deletions.
+            let error = <TwitchRequestError>createErrorFromResponse(resp, resp.body);
+            error.message = `Failed to create EventSub subscription ${topic.type} for ${webhook.id} (${resp.statusCode}): ${error.message}`;
+            throw error;
+        }
+    }
+    return ids;
+}
+
+//Deletes every known EventSub subscription backing the webhook. Subscriptions that no longer exist are ignored.
+async function deleteEventSubSubscriptions(webhook: WebhookPersistenceObject, manager: TwitchWebhookManager, oAuthToken: string): Promise<void> {
+    for (let id of webhook.eventSubIds || []) {
+        let url = new URL(manager.config.eventSubUrl);
+        url.searchParams.set('id', id);
+        let resp = await doEventSubRequest(manager, 'DELETE', url.href, undefined, oAuthToken);
+        if (resp.statusCode === 404) {
+            manager.config.logger.info(`EventSub subscription ${id} for ${webhook.id} was already deleted.`);
+        }
+    }
+}
+
+//Do a request to the EventSub subscriptions API. 2xx, 404 and 409 responses resolve; Anything else throws.
+async function doEventSubRequest(manager: TwitchWebhookManager, method: 'POST' | 'DELETE', url: string, body: any, oAuthToken: string) {
+    let doRequest = (token: string) => got(url, {
+        method: method,
+        headers: {
+            "Authorization": `Bearer ${token}`,
+            "Client-ID": manager.config.client_id,
+            "Content-Type": 'application/json',
+        },
+        timeout: 10000,
+        retry: 0,
+        throwHttpErrors: false,
+        body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    let resp = await doRequest(oAuthToken);
+    if (resp.statusCode === 401) {
+        //Retry
+        resp = await doRequest(await manager.config.refreshOAuthToken(oAuthToken));
+    }
+    updateRateLimit(manager, resp.headers);
+
+    if (Math.floor(resp.statusCode / 100) === 2 || resp.statusCode === 404 || resp.statusCode === 409) {
+        return resp;
+    }
+
+    throw createErrorFromResponse(resp, resp.body) || new Error('Unknown error when doing EventSub request: ' + resp.body);
+}
+
+function parseEventSubTimestamp(timestamp: string | undefined): Date | undefined {
+    let date = new Date(<string>timestamp);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+//Converts an EventSub notification into the data format used for the equivalent WebSub notification, so the same
+//WebhookPayload types can be used regardless of the transport.
+//Returns undefined for StreamChanged when the stream went offline (this mirrors the WebSub behaviour).
+function convertEventSubEvent(messageId: string, timestamp: string, message: EventSubMessage): any {
+    let e = <{ [key: string]: any }>message.event;
+    let moderatorEventData = () => ({
+        broadcaster_id: e.broadcaster_user_id,
+        broadcaster_name: e.broadcaster_user_name,
+        user_id: e.user_id,
+        user_name: e.user_name
+    });
+    let subscriptionEventData = () => ({
+        broadcaster_id: e.broadcaster_user_id,
+        broadcaster_name: e.broadcaster_user_name,
+        is_gift: !!e.is_gift,
+        plan_name: '',
+        tier: e.tier,
+        user_id: e.user_id,
+        user_name: e.user_name,
+        message: e.message ? e.message.text : undefined
+    });
+
+    switch (message.subscription.type) {
+        case "channel.follow":
+            return {
+                from_id: e.user_id,
+                from_name: e.user_name,
+                to_id: e.broadcaster_user_id,
+                to_name: e.broadcaster_user_name,
+                followed_at: parseEventSubTimestamp(e.followed_at)
+            };
+        case "stream.online":
+            // stream.online carries less information than the WebSub notification did; the rest is left undefined.
+            return {
+                id: e.id,
+                user_id: e.broadcaster_user_id,
+                user_name: e.broadcaster_user_name,
+                type: e.type,
+                started_at: parseEventSubTimestamp(e.started_at)
+            };
+        case "stream.offline":
+            return undefined;
+        case "user.update":
+            return {
+                id: e.user_id,
+                login: e.user_login,
+                display_name: e.user_name,
+                description: e.description
+            };
+        case "extension.bits_transaction.create":
+            return {
+                id: e.id,
+                timestamp: parseEventSubTimestamp(timestamp),
+                broadcaster_id: e.broadcaster_user_id,
+                broadcaster_name: e.broadcaster_user_name,
+                user_id: e.user_id,
+                user_name: e.user_name,
+                product_type: "BITS_IN_EXTENSION",
+                product_data: {
+                    sku: e.product.sku,
+                    cost: {
+                        amount: e.product.bits,
+                        type: "Bits"
+                    },
+                    displayName: e.product.name,
+                    inDevelopment: e.product.in_development
+                }
+            };
+        case "channel.moderator.add":
+        case "channel.moderator.remove":
+        case "channel.ban":
+        case "channel.unban":
+            return {
+                id: messageId,
+                event_type: getModeratorEventType(message.subscription.type),
+                event_timestamp: parseEventSubTimestamp(timestamp),
+                version: message.subscription.version,
+                event_data: moderatorEventData()
+            };
+        case "channel.subscribe":
+        case "channel.subscription.end":
+        case "channel.subscription.message":
+            return {
+                id: messageId,
+                event_type: getSubscriptionEventType(message.subscription.type),
+                event_timestamp: parseEventSubTimestamp(timestamp),
+                version: message.subscription.version,
+                event_data: subscriptionEventData()
+            };
+        default:
+            return e;
+    }
+}
+
+function getModeratorEventType(eventSubType: string): ModeratorEventType {
+    switch (eventSubType) {
+        case "channel.moderator.add":
+            return ModeratorEventType.MODERATOR_ADD;
+        case "channel.moderator.remove":
+            return ModeratorEventType.MODERATOR_REMOVE;
+        case "channel.ban":
+            return ModeratorEventType.BAN_USER;
+        default:
+            return ModeratorEventType.UNBAN_USER;
+    }
+}
+
+function getSubscriptionEventType(eventSubType: string): SubscriptionEventType {
+    switch (eventSubType) {
+        case "channel.subscribe":
+            return SubscriptionEventType.SUBSCRIBE;
+        case "channel.subscription.end":
+            return SubscriptionEventType.UNSUBSCRIBE;
+        default:
+            return SubscriptionEventType.NOTIFICATION;
+    }
+}
+
+export {
+    TWITCH_EVENTSUB_URL,
+    EVENTSUB_MESSAGE_ID_HEADER,
+    EVENTSUB_MESSAGE_TIMESTAMP_HEADER,
+    EVENTSUB_MESSAGE_SIGNATURE_HEADER,
+    EVENTSUB_MESSAGE_TYPE_HEADER,
+    EventSubMessageType,
+    EventSubTopic,
+    EventSubSubscription,
+    EventSubMessage,
+    WebhookTypeEventSubTopics,
+    getEventSubCondition,
+    verifyEventSubSignature,
+    createEventSubSubscriptions,
+    deleteEventSubSubscriptions,
+    convertEventSubEvent
+}
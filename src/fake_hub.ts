@@ -0,0 +1,291 @@
+/*
+* In-process fake of the Twitch WebSub hub, for testing subscription flows without network access.
+* Point TwitchWebhookManagerConfig.hubUrl at FakeTwitchHub.hubUrl; The hub verifies (un)subscriptions against the
+* callback URL like twitch does, and can push signed notifications, deny subscriptions and fail requests on demand.
+* Active subscriptions are listed at FakeTwitchHub.subscriptionsUrl, like helix's GET /webhooks/subscriptions.
+* */
+
+import * as http from "http";
+import * as crypto from "crypto";
+import {EventEmitter} from "events";
+import {AddressInfo} from "net";
+import got from 'got';
+import concat = require("concat-stream");
+
+type FakeHubSubscription = {
+    callback: string,
+    topic: string,
+    secret?: string,
+    leaseSeconds: number,
+    expiresAt: Date
+}
+
+type FakeHubRequest = {
+    'hub.callback': string,
+    'hub.mode': string,
+    'hub.topic': string,
+    'hub.lease_seconds'?: number,
+    'hub.secret'?: string
+}
+
+type FakeHubNotificationOptions = {
+    notificationId?: string, // Defaults to a random id
+    timestamp?: Date, // Defaults to now
+    algorithm?: string // Algorithm used for X-Hub-Signature. Defaults to sha256
+}
+
+type SimulatedFailure = {
+    status: 401 | 429,
+    remaining: number
+}
+
+declare interface FakeTwitchHub {
+    emit(event: 'request', request: FakeHubRequest): boolean;
+
+    on(event: 'request', callback: (request: FakeHubRequest) => void): this;
+
+    emit(event: 'verified', subscription: FakeHubSubscription, mode: string): boolean;
+
+    on(event: 'verified', callback: (subscription: FakeHubSubscription, mode: string) => void): this;
+
+    emit(event: 'verificationFailed', request: FakeHubRequest, e: Error): boolean;
+
+    on(event: 'verificationFailed', callback: (request: FakeHubRequest, e: Error) => void): this;
+}
+
+class FakeTwitchHub extends EventEmitter {
+    readonly path: string;
+    readonly subscriptionsPath: string = '/webhooks/subscriptions';
+    // Active subscriptions, keyed by callback URL (twitch allows one subscription per callback and topic).
+    subscriptions: Map<string, FakeHubSubscription> = new Map<string, FakeHubSubscription>();
+    private server: http.Server | undefined;
+    private failures: SimulatedFailure[] = [];
+    private denials: Map<string, string> = new Map<string, string>();
+    private denyAllReason: string | undefined;
+    private verifications: Map<string, Promise<void>[]> = new Map<string, Promise<void>[]>();
+
+    constructor(path: string = '/hub') {
+        super();
+        this.path = path;
+    }
+
+    get hubUrl(): string {
+        if (!this.server) {
+            throw new Error('The fake hub has not been started!');
+        }
+        return `http://localhost:${(<AddressInfo>this.server.address()).port}${this.path}`;
+    }
+
+    get subscriptionsUrl(): string {
+        return new URL(this.subscriptionsPath, this.hubUrl).href;
+    }
+
+    // Starts listening; Resolves with the hub URL. Port 0 picks a free port.
+    start(port: number = 0): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let server = http.createServer((req, res) => this.handleRequest(req, res));
+            server.on('error', reject);
+            server.listen(port, () => {
+                this.server = server;
+                resolve(this.hubUrl);
+            });
+        });
+    }
+
+    async stop(): Promise<void> {
+        let server = this.server;
+        this.server = undefined;
+        if (server) {
+            await new Promise<void>((resolve, reject) => (<http.Server>server).close((e) => e ? reject(e) : resolve()));
+        }
+    }
+
+    // Forgets all subscriptions, denials and simulated failures.
+    reset(): void {
+        this.subscriptions.clear();
+        this.failures = [];
+        this.denials.clear();
+        this.denyAllReason = undefined;
+        this.verifications.clear();
+    }
+
+    // The next subscription requests for the topic (or for every topic, if none is given) are denied with hub.mode=denied.
+    deny(reason: string = 'unauthorized', topic?: string): void {
+        if (topic) {
+            this.denials.set(topic, reason);
+        } else {
+            this.denyAllReason = reason;
+        }
+    }
+
+    // The next `count` hub requests are answered with a 401 or 429 instead of being accepted.
+    failNextRequests(status: 401 | 429, count: number = 1): void {
+        this.failures.push({status: status, remaining: count});
+    }
+
+    // Sends a signed notification to every subscription for the topic. Resolves with the status code of each delivery.
+    async pushNotification(topic: string, data: any[], options: FakeHubNotificationOptions = {}): Promise<number[]> {
+        await Promise.all(this.verifications.get(topic) || []);
+
+        let body = JSON.stringify({data: data});
+        let statuses: number[] = [];
+        for (let subscription of Array.from(this.subscriptions.values()).filter(x => x.topic === topic)) {
+            let headers: { [key: string]: string } = {
+                'Content-Type': 'application/json',
+                'Twitch-Notification-Id': options.notificationId || crypto.randomBytes(16).toString('hex'),
+                'Twitch-Notification-Timestamp': (options.timestamp || new Date()).toISOString()
+            };
+            if (subscription.secret) {
+                let algorithm = options.algorithm || 'sha256';
+                headers['X-Hub-Signature'] = `${algorithm}=` + crypto.createHmac(algorithm, subscription.secret).update(body).digest('hex');
+            }
+
+            let resp = await got.post(subscription.callback, {
+                headers: headers,
+                body: body,
+                timeout: 10000,
+                retry: 0,
+                throwHttpErrors: false
+            });
+            statuses.push(resp.statusCode);
+        }
+        return statuses;
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        req.pipe(concat({encoding: 'buffer'}, (body: Buffer) => {
+            let url = new URL(<string>req.url, 'http://localhost');
+            if (url.pathname === this.subscriptionsPath && req.method === 'GET') {
+                return this.listSubscriptions(url, res);
+            }
+
+            if (url.pathname !== this.path || req.method !== 'POST') {
+                res.statusCode = 404;
+                res.end();
+                return;
+            }
+
+            let failure = this.failures[0];
+            if (failure) {
+                if (--failure.remaining <= 0) {
+                    this.failures.shift();
+                }
+                return this.respondWithFailure(res, failure.status);
+            }
+
+            let hubRequest: FakeHubRequest;
+            try {
+                hubRequest = JSON.parse(body.toString('utf8'));
+            } catch (e) {
+                res.statusCode = 400;
+                res.end(JSON.stringify({error: 'Bad Request', status: 400, message: 'Invalid JSON'}));
+                return;
+            }
+
+            if (!hubRequest['hub.callback'] || !hubRequest['hub.topic'] ||
+                (hubRequest['hub.mode'] !== 'subscribe' && hubRequest['hub.mode'] !== 'unsubscribe')) {
+                res.statusCode = 400;
+                res.end(JSON.stringify({error: 'Bad Request', status: 400, message: 'Missing hub parameters'}));
+                return;
+            }
+
+            this.emit('request', hubRequest);
+            res.statusCode = 202;
+            res.end();
+
+            let verification = this.verify(hubRequest).catch((e) => {
+                this.emit('verificationFailed', hubRequest, e);
+            });
+            let topicVerifications = this.verifications.get(hubRequest['hub.topic']) || [];
+            topicVerifications.push(verification);
+            this.verifications.set(hubRequest['hub.topic'], topicVerifications);
+        }));
+    }
+
+    // Pages through active subscriptions; The cursor is the index of the first subscription on the next page.
+    private listSubscriptions(url: URL, res: http.ServerResponse) {
+        let subscriptions = Array.from(this.subscriptions.values());
+        let first = Math.min(parseInt(url.searchParams.get('first') || '20'), 100);
+        let start = parseInt(url.searchParams.get('after') || '0');
+        let page = subscriptions.slice(start, start + first);
+
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+            total: subscriptions.length,
+            data: page.map(subscription => ({
+                topic: subscription.topic,
+                callback: subscription.callback,
+                expires_at: subscription.expiresAt.toISOString()
+            })),
+            pagination: start + first < subscriptions.length ? {cursor: `${start + first}`} : {}
+        }));
+    }
+
+    private respondWithFailure(res: http.ServerResponse, status: 401 | 429) {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        if (status === 401) {
+            res.setHeader('WWW-Authenticate', 'OAuth realm="TwitchTV", error="invalid_token"');
+            res.end(JSON.stringify({error: 'Unauthorized', status: 401, message: 'Invalid OAuth token'}));
+        } else {
+            res.setHeader('Ratelimit-Limit', '800');
+            res.setHeader('Ratelimit-Remaining', '0');
+            res.setHeader('Ratelimit-Reset', `${Math.ceil(Date.now() / 1000) + 1}`);
+            res.end(JSON.stringify({error: 'Too Many Requests', status: 429, message: 'Rate limit exceeded'}));
+        }
+    }
+
+    // Sends the GET verification challenge (or denial) to the callback, like the real hub.
+    private async verify(hubRequest: FakeHubRequest): Promise<void> {
+        let callback = new URL(hubRequest['hub.callback']);
+        let topic = hubRequest['hub.topic'];
+        let mode = hubRequest['hub.mode'];
+        let denial = this.denials.get(topic) || this.denyAllReason;
+
+        if (mode === 'subscribe' && denial) {
+            this.denials.delete(topic);
+            this.denyAllReason = undefined;
+            callback.searchParams.set('hub.mode', 'denied');
+            callback.searchParams.set('hub.topic', topic);
+            callback.searchParams.set('hub.reason', denial);
+            await got(callback.href, {timeout: 10000, retry: 0, throwHttpErrors: false});
+            return;
+        }
+
+        let leaseSeconds = hubRequest['hub.lease_seconds'] || 864000;
+        let challenge = crypto.randomBytes(16).toString('hex');
+        callback.searchParams.set('hub.mode', mode);
+        callback.searchParams.set('hub.topic', topic);
+        callback.searchParams.set('hub.challenge', challenge);
+        if (mode === 'subscribe') {
+            callback.searchParams.set('hub.lease_seconds', `${leaseSeconds}`);
+        }
+
+        let resp = await got(callback.href, {timeout: 10000, retry: 0, throwHttpErrors: false});
+        if (Math.floor(resp.statusCode / 100) !== 2 || resp.body !== challenge) {
+            throw new Error(`Callback ${hubRequest['hub.callback']} did not echo the challenge (status ${resp.statusCode}).`);
+        }
+
+        let subscription: FakeHubSubscription = {
+            callback: hubRequest['hub.callback'],
+            topic: topic,
+            secret: hubRequest['hub.secret'],
+            leaseSeconds: leaseSeconds,
+            expiresAt: new Date(Date.now() + leaseSeconds * 1000)
+        };
+        if (mode === 'subscribe') {
+            this.subscriptions.set(subscription.callback, subscription);
+        } else {
+            this.subscriptions.delete(subscription.callback);
+        }
+        this.emit('verified', subscription, mode);
+    }
+}
+
+export {
+    FakeTwitchHub,
+    FakeHubSubscription,
+    FakeHubRequest,
+    FakeHubNotificationOptions
+}
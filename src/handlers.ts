@@ -0,0 +1,227 @@
+/*
+* Registered handlers, with at-least-once delivery.
+* A 'message' listener that throws loses the payload. A handler registered with registerHandler is retried with
+* backoff when it rejects; Once its attempts are exhausted, the payload is moved to a dead-letter store along with the
+* error, from where it can be listed, retried and purged.
+* */
+
+import * as crypto from "crypto";
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookType} from "./config";
+import {WebhookPayload} from "./payload_types";
+import {getRetryDelay, RetryPolicy} from "./retry";
+
+type MessageHandler<T extends WebhookType> = (payload: WebhookPayload<T>, webhookId: WebhookId) => Promise<void> | void;
+
+type HandlerOptions<T extends WebhookType> = {
+    types?: T[], // Only payloads of these webhook types. Defaults to all types.
+    webhookIds?: WebhookId[], // Only payloads of these webhooks. Defaults to all webhooks.
+    retryPolicy?: Partial<RetryPolicy> // Unspecified fields use DEFAULT_HANDLER_RETRY_POLICY. retryableStatusCodes is ignored; Every rejection is retried.
+}
+
+const DEFAULT_HANDLER_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelay: 1000,
+    maxDelay: 60000,
+    jitter: 0.2,
+    retryableStatusCodes: []
+};
+
+type DeadLetter = {
+    id: string,
+    handler: string, // Name of the handler that failed
+    webhookId: WebhookId,
+    payload: WebhookPayload<any>,
+    error: { message: string, stack?: string }, // The last error the handler rejected with
+    attempts: number, // Attempts made in total, including earlier retries of the dead letter
+    failedAt: Date
+}
+
+interface DeadLetterStore {
+    add(deadLetter: DeadLetter): Promise<void>;
+
+    getAll(): Promise<DeadLetter[]>;
+
+    get(id: string): Promise<DeadLetter | undefined>;
+
+    remove(id: string): Promise<void>;
+
+    destroy(): Promise<void>;
+}
+
+// Default store; Keeps dead letters in memory, so they are lost when the process exits.
+class MemoryDeadLetterStore implements DeadLetterStore {
+    deadLetters: Map<string, DeadLetter> = new Map<string, DeadLetter>();
+
+    async add(deadLetter: DeadLetter): Promise<void> {
+        this.deadLetters.set(deadLetter.id, deadLetter);
+    }
+
+    async getAll(): Promise<DeadLetter[]> {
+        return Array.from(this.deadLetters.values());
+    }
+
+    async get(id: string): Promise<DeadLetter | undefined> {
+        return this.deadLetters.get(id);
+    }
+
+    async remove(id: string): Promise<void> {
+        this.deadLetters.delete(id);
+    }
+
+    async destroy(): Promise<void> {
+    }
+}
+
+type RegisteredHandler = {
+    name: string,
+    handler: MessageHandler<any>,
+    options: HandlerOptions<any>,
+    retryPolicy: RetryPolicy
+}
+
+type PendingRetry = {
+    timeout: NodeJS.Timeout,
+    resolve: (elapsed: boolean) => void
+}
+
+class HandlerRegistry {
+    readonly manager: TwitchWebhookManager;
+    handlers: Map<string, RegisteredHandler> = new Map<string, RegisteredHandler>();
+    private pendingRetries: Set<PendingRetry> = new Set<PendingRetry>();
+    private deliveries: Set<Promise<boolean>> = new Set<Promise<boolean>>();
+    private destroyed: boolean = false;
+
+    constructor(manager: TwitchWebhookManager) {
+        this.manager = manager;
+    }
+
+    register<T extends WebhookType>(name: string, handler: MessageHandler<T>, options: HandlerOptions<T> = {}): void {
+        if (this.handlers.has(name)) {
+            throw new Error(`A handler named ${name} is already registered!`);
+        }
+        this.handlers.set(name, {
+            name: name,
+            handler: handler,
+            options: options,
+            retryPolicy: Object.assign({}, DEFAULT_HANDLER_RETRY_POLICY, options.retryPolicy)
+        });
+    }
+
+    unregister(name: string): boolean {
+        return this.handlers.delete(name);
+    }
+
+    // Starts delivering the payload to every matching handler; Deliveries continue in the background.
+    dispatch(webhookId: WebhookId, payload: WebhookPayload<any>): void {
+        for (let registered of Array.from(this.handlers.values())) {
+            if ((!registered.options.types || registered.options.types.indexOf(payload.type) !== -1) &&
+                (!registered.options.webhookIds || registered.options.webhookIds.indexOf(webhookId) !== -1)) {
+                this.track(this.deliver(registered, webhookId, payload, 0)).catch((e) => {
+                    this.manager.config.logger.error(`Failed to dead-letter a payload for handler ${registered.name}: `, e);
+                });
+            }
+        }
+    }
+
+    // Delivers the dead letter to its handler again (with retries). Resolves to true if the handler succeeded,
+    // in which case the dead letter is removed; Otherwise it is replaced by a new dead letter.
+    async retryDeadLetter(id: string): Promise<boolean> {
+        let deadLetter = await this.manager.config.deadLetterStore.get(id);
+        if (!deadLetter) {
+            throw new Error(`Dead letter with id ${id} could not be found!`);
+        }
+        let registered = this.handlers.get(deadLetter.handler);
+        if (!registered) {
+            throw new Error(`Handler ${deadLetter.handler} of dead letter ${id} is not registered!`);
+        }
+
+        await this.manager.config.deadLetterStore.remove(id);
+        return this.track(this.deliver(registered, deadLetter.webhookId, deadLetter.payload, deadLetter.attempts));
+    }
+
+    // Cancels pending retries; Payloads waiting for a retry are dead-lettered without calling their handler again,
+    // and payloads whose handler is still running are dead-lettered if it fails. Resolves once every delivery has
+    // finished, so the dead-letter store may be destroyed afterwards.
+    async destroy(): Promise<void> {
+        this.destroyed = true;
+        for (let retry of Array.from(this.pendingRetries)) {
+            clearTimeout(retry.timeout);
+            retry.resolve(false);
+        }
+        this.pendingRetries.clear();
+        await Promise.all(Array.from(this.deliveries).map(delivery => delivery.catch(() => false)));
+    }
+
+    private track(delivery: Promise<boolean>): Promise<boolean> {
+        this.deliveries.add(delivery);
+        let untrack = () => {
+            this.deliveries.delete(delivery);
+        };
+        delivery.then(untrack, untrack);
+        return delivery;
+    }
+
+    //Resolves to true if the handler succeeded, or false if the payload was dead-lettered.
+    private async deliver(registered: RegisteredHandler, webhookId: WebhookId, payload: WebhookPayload<any>, previousAttempts: number): Promise<boolean> {
+        let attempt = 0;
+        while (true) {
+            attempt++;
+            try {
+                await registered.handler(payload, webhookId);
+                return true;
+            } catch (e) {
+                if (attempt >= registered.retryPolicy.maxAttempts || this.destroyed) {
+                    await this.deadLetter(registered, webhookId, payload, previousAttempts + attempt, e);
+                    return false;
+                }
+                let delay = getRetryDelay(registered.retryPolicy, attempt, e);
+                this.manager.config.logger.error(`Attempt ${attempt} of handler ${registered.name} failed for ${webhookId}; Retrying in ${Math.round(delay)}ms.`, e);
+                if (!await this.wait(delay)) {
+                    //The retry was cancelled by destroy().
+                    await this.deadLetter(registered, webhookId, payload, previousAttempts + attempt, e);
+                    return false;
+                }
+            }
+        }
+    }
+
+    private async deadLetter(registered: RegisteredHandler, webhookId: WebhookId, payload: WebhookPayload<any>, attempts: number, e: any) {
+        let deadLetter: DeadLetter = {
+            id: crypto.randomBytes(16).toString('hex'),
+            handler: registered.name,
+            webhookId: webhookId,
+            payload: payload,
+            error: {message: e && e.message ? e.message : String(e), stack: e && e.stack},
+            attempts: attempts,
+            failedAt: new Date()
+        };
+        this.manager.config.logger.error(`Handler ${registered.name} failed ${attempts} times for ${webhookId}; Moving the payload to the dead-letter store as ${deadLetter.id}.`);
+        await this.manager.config.deadLetterStore.add(deadLetter);
+        this.manager.emit('deadLettered', deadLetter);
+    }
+
+    //Resolves to true once the delay has elapsed, or to false if the retry was cancelled.
+    private wait(delay: number): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            let retry: PendingRetry = {
+                timeout: setTimeout(() => {
+                    this.pendingRetries.delete(retry);
+                    resolve(true);
+                }, delay),
+                resolve: resolve
+            };
+            this.pendingRetries.add(retry);
+        });
+    }
+}
+
+export {
+    MessageHandler,
+    HandlerOptions,
+    DEFAULT_HANDLER_RETRY_POLICY,
+    DeadLetter,
+    DeadLetterStore,
+    MemoryDeadLetterStore,
+    HandlerRegistry
+}
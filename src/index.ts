@@ -1,10 +1,39 @@
 export {TwitchWebhookManager, WebhookId} from "./webhooks"
+export {WebhookRequest, WebhookResponse, WebhookRequestHandler} from "./request_handler"
+export {expressAdapter, nodeHttpAdapter, koaAdapter, fastifyAdapter} from "./adapters"
 export * from './config';
-export {WebhookRenewalScheduler, BasicWebhookRenewalScheduler} from "./scheduling"
+export {
+    WebhookRenewalScheduler,
+    BasicWebhookRenewalScheduler,
+    RateLimitAwareWebhookRenewalScheduler,
+    RateLimitAwareSchedulerOptions,
+    CoordinatedWebhookRenewalScheduler,
+    CoordinatedSchedulerOptions
+} from "./scheduling"
 export {
     WebhookPersistenceObject,
     TwitchWebhookPersistenceManager,
     MemoryBasedTwitchWebhookPersistenceManager,
+    FileBasedTwitchWebhookPersistenceManager,
     createWebhookPersistenceObject,
-    getIdFromTypeAndParams
-} from "./persistence"
\ No newline at end of file
+    getIdFromTypeAndParams,
+    delegateLeases,
+    WEBHOOK_SCHEMA_VERSION
+} from "./persistence"
+export {RetryPolicy, DEFAULT_RETRY_POLICY} from "./retry"
+export {NotificationIdStore, MemoryLRUNotificationIdStore} from "./deduplication"
+export {FakeTwitchHub, FakeHubSubscription, FakeHubRequest, FakeHubNotificationOptions} from "./fake_hub"
+export {ReconcileOptions, ReconciliationReport, HubSubscription} from "./reconciliation"
+export {AdminOptions, AdminAuthorizeCallback, AdminWebhookDescription, WebhookStatus} from "./admin"
+export {MetricsRegistry, MetricsOptions, WebhookMetrics, RenewalReason, Counter, Gauge, Histogram, HistogramValue, Labels} from "./metrics"
+export {JournalEntry, JournalQuery, NotificationJournalStore, JsonlNotificationJournalStore} from "./journal"
+export {OverflowPolicy, MessageStreamOptions, MessageStream} from "./streams"
+
+export {SubscriptionRequest, BulkSubscriptionOptions, BulkSubscriptionResult} from "./bulk"
+export {MessageHandler, HandlerOptions, DEFAULT_HANDLER_RETRY_POLICY, DeadLetter, DeadLetterStore, MemoryDeadLetterStore} from "./handlers"
+export {PayloadValidationMode} from "./validation"
+export {StreamState, StreamStateChange, StreamStateStore, MemoryStreamStateStore, FileStreamStateStore} from "./stream_state"
+export {OAuthTokenProvider, RefreshTokenStore, MemoryRefreshTokenStore, TokenProviderOptions, TwitchOAuthTokenProvider} from "./tokens"
+export {SecretRotationOptions, SecretRotationProgress, SecretRotationResult} from "./secrets"
+export {SecretEncryptionKey, SecretKeyProvider, EncryptedTwitchWebhookPersistenceManager} from "./encryption"
+export {UnmigratedWebhook, WebhookMigration, BUILT_IN_MIGRATIONS, WebhookMigrationRegistry, migrateAll, MigratingTwitchWebhookPersistenceManager} from "./migrations"
\ No newline at end of file
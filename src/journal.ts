@@ -0,0 +1,168 @@
+/*
+* Code for journaling notifications.
+* Once 'message' has been emitted, a payload is gone; If a consumer crashes while handling it, it's lost. With a
+* journal configured, every verified notification is recorded before twitch gets a response, and can be replayed
+* through the normal events later (e.g. to rebuild state after an outage).
+* */
+
+import * as fs from "fs";
+import * as readline from "readline";
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookTransport, WebhookType} from "./config";
+import {convertPayloadItems, WebhookPayload} from "./payload_types";
+import {convertEventSubEvent} from "./eventsub";
+import {getWebhookParamsFromId} from "./util";
+
+type JournalEntry = {
+    webhookId: WebhookId,
+    type: WebhookType,
+    transport: WebhookTransport,
+    notificationId?: string,
+    timestamp?: string, // Twitch-Notification-Timestamp (or Twitch-Eventsub-Message-Timestamp) header, if sent
+    receivedAt: Date,
+    body: string // Raw (verified) request body
+}
+
+type JournalQuery = {
+    from?: Date, // Only entries received at or after this time
+    to?: Date, // Only entries received at or before this time
+    types?: WebhookType[], // Only entries of these webhook types
+    webhookIds?: WebhookId[] // Only entries of these webhooks
+}
+
+interface NotificationJournalStore {
+    append(entry: JournalEntry): Promise<void>;
+
+    // Calls onEntry for every entry matching the query, in the order they were appended.
+    read(query: JournalQuery, onEntry: (entry: JournalEntry) => Promise<void> | void): Promise<void>;
+
+    destroy(): Promise<void>;
+}
+
+// Default store; Appends each entry as a line of JSON to a file.
+class JsonlNotificationJournalStore implements NotificationJournalStore {
+    readonly filePath: string;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    append(entry: JournalEntry): Promise<void> {
+        let line = JSON.stringify(entry) + '\n';
+        let write = this.writeQueue.then(() => fs.promises.appendFile(this.filePath, line, 'utf8'));
+        //Keep the queue going if a write fails; The failure is reported to the caller of this append.
+        this.writeQueue = write.catch(() => undefined);
+        return write;
+    }
+
+    async read(query: JournalQuery, onEntry: (entry: JournalEntry) => Promise<void> | void): Promise<void> {
+        await this.writeQueue;
+        try {
+            await fs.promises.access(this.filePath);
+        } catch (e) {
+            if (e.code === 'ENOENT') {
+                return;
+            }
+            throw e;
+        }
+
+        let input = fs.createReadStream(this.filePath, {encoding: 'utf8'});
+        let lines = readline.createInterface({input: input, crlfDelay: Infinity});
+        //Entries are handed over one at a time, in order.
+        let pending: Promise<void> = Promise.resolve();
+        await new Promise((resolve, reject) => {
+            lines.on('line', (line: string) => {
+                let entry: JournalEntry;
+                try {
+                    entry = JSON.parse(line);
+                    entry.receivedAt = new Date(entry.receivedAt);
+                } catch (e) {
+                    //Blank lines, or a partial last line left by a crash mid-append.
+                    return;
+                }
+                if (matchesQuery(entry, query)) {
+                    pending = pending.then(() => onEntry(entry));
+                }
+            });
+            lines.on('close', () => pending.then(resolve, reject));
+            input.on('error', reject);
+        });
+    }
+
+    async destroy(): Promise<void> {
+        await this.writeQueue;
+    }
+}
+
+function matchesQuery(entry: JournalEntry, query: JournalQuery): boolean {
+    let receivedAt = entry.receivedAt.getTime();
+    return (!query.from || receivedAt >= query.from.getTime()) &&
+        (!query.to || receivedAt <= query.to.getTime()) &&
+        (!query.types || query.types.indexOf(entry.type) !== -1) &&
+        (!query.webhookIds || query.webhookIds.indexOf(entry.webhookId) !== -1);
+}
+
+//Rebuilds the payloads that were emitted for the journaled notification.
+function payloadsFromJournalEntry(entry: JournalEntry): WebhookPayload<any>[] {
+    let message = JSON.parse(entry.body);
+    let subParams = getWebhookParamsFromId(entry.type, entry.webhookId);
+    if (entry.transport === WebhookTransport.EventSub) {
+        return [{
+            type: entry.type,
+            notificationId: entry.notificationId,
+            data: convertEventSubEvent(entry.notificationId || '', entry.timestamp || '', message),
+            subParams: subParams,
+            replayed: true
+        }];
+    }
+
+    return convertPayloadItems(entry.type, message.data).map((data, index) => ({
+        type: entry.type,
+        notificationId: entry.notificationId,
+        data: data,
+        subParams: subParams,
+        replayed: true,
+        batch: {index: index, size: message.data.length}
+    }));
+}
+
+//Re-emits journaled notifications through the manager's events; Resolves with the number of notifications replayed.
+//Twitch may deliver a notification more than once, so deliveries of an already replayed notification id are skipped.
+async function replayJournal(manager: TwitchWebhookManager, journal: NotificationJournalStore, query: JournalQuery): Promise<number> {
+    let replayedIds = new Set<string>();
+    let count = 0;
+    await journal.read(query, (entry) => {
+        if (entry.notificationId) {
+            if (replayedIds.has(entry.notificationId)) {
+                return;
+            }
+            replayedIds.add(entry.notificationId);
+        }
+
+        try {
+            if (entry.transport === WebhookTransport.EventSub) {
+                for (let payload of payloadsFromJournalEntry(entry)) {
+                    manager.requestHandler.dispatch(entry.webhookId, payload);
+                }
+            } else {
+                //Validated like live deliveries, so strict mode holds for replays too.
+                manager.requestHandler.dispatchNotification(entry.webhookId, entry.type, entry.notificationId,
+                    JSON.parse(entry.body).data, true);
+            }
+            count++;
+        } catch (e) {
+            manager.config.logger.error(`Failed to replay notification ${entry.notificationId} for ${entry.webhookId}: `, e);
+        }
+    });
+    return count;
+}
+
+export {
+    JournalEntry,
+    JournalQuery,
+    NotificationJournalStore,
+    JsonlNotificationJournalStore,
+    payloadsFromJournalEntry,
+    replayJournal
+}
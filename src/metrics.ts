@@ -0,0 +1,321 @@
+/*
+* Metrics, rendered in the Prometheus text format.
+* Every TwitchWebhookManager records its metrics in manager.metrics; They can be read programmatically, rendered with
+* manager.metrics.registry.render(), or served at ${base_path}/_metrics (see MetricsOptions).
+* No client library is needed; The registry only implements what the manager records.
+* */
+
+import {TwitchWebhookManager} from "./webhooks";
+import {WebhookType} from "./config";
+
+type Labels = { [name: string]: string };
+
+type MetricsOptions = {
+    registry?: MetricsRegistry, // Registry to record into; Useful to render the metrics of several managers together. Defaults to a new registry.
+    endpoint?: boolean // If true, the metrics are served at ${base_path}/_metrics. Defaults to false.
+}
+
+type LabeledValue<T> = {
+    labels: Labels,
+    value: T
+}
+
+abstract class Metric<T> {
+    readonly name: string;
+    readonly help: string;
+    readonly labelNames: string[];
+    protected values: Map<string, LabeledValue<T>> = new Map<string, LabeledValue<T>>();
+
+    constructor(name: string, help: string, labelNames: string[] = []) {
+        this.name = name;
+        this.help = help;
+        this.labelNames = labelNames;
+    }
+
+    abstract get type(): string;
+
+    // Lines of the metric in the Prometheus text format, without the HELP and TYPE lines.
+    abstract renderValues(): string[];
+
+    reset(): void {
+        this.values.clear();
+    }
+
+    remove(labels: Labels): void {
+        this.values.delete(this.getKey(labels));
+    }
+
+    protected getKey(labels: Labels): string {
+        return this.labelNames.map(name => labels[name] || '').join('\u0000');
+    }
+
+    protected getOrCreate(labels: Labels, create: () => T): LabeledValue<T> {
+        let key = this.getKey(labels);
+        let value = this.values.get(key);
+        if (!value) {
+            value = {labels: labels, value: create()};
+            this.values.set(key, value);
+        }
+        return value;
+    }
+
+    protected formatLabels(labels: Labels, extra: Labels = {}): string {
+        let names = this.labelNames.filter(name => labels[name] !== undefined);
+        let pairs = names.map(name => `${name}="${escapeLabelValue(labels[name])}"`)
+            .concat(Object.keys(extra).map(name => `${name}="${escapeLabelValue(extra[name])}"`));
+        return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+    }
+}
+
+class Counter extends Metric<number> {
+    get type() {
+        return 'counter';
+    }
+
+    inc(labels: Labels = {}, value: number = 1): void {
+        this.getOrCreate(labels, () => 0).value += value;
+    }
+
+    get(labels: Labels = {}): number {
+        return this.getOrCreate(labels, () => 0).value;
+    }
+
+    renderValues(): string[] {
+        return Array.from(this.values.values()).map(x => `${this.name}${this.formatLabels(x.labels)} ${x.value}`);
+    }
+}
+
+type GaugeCollector = (gauge: Gauge) => Promise<void>;
+
+class Gauge extends Metric<number> {
+    // Called before the gauge is rendered, to bring its values up to date. A gauge shared by several managers has a
+    // collector per manager.
+    readonly collectors: GaugeCollector[] = [];
+
+    constructor(name: string, help: string, labelNames: string[] = [], collect?: GaugeCollector) {
+        super(name, help, labelNames);
+        if (collect) {
+            this.collectors.push(collect);
+        }
+    }
+
+    get type() {
+        return 'gauge';
+    }
+
+    set(labels: Labels, value: number): void {
+        this.getOrCreate(labels, () => 0).value = value;
+    }
+
+    get(labels: Labels = {}): number | undefined {
+        let value = this.values.get(this.getKey(labels));
+        return value ? value.value : undefined;
+    }
+
+    addCollector(collect: GaugeCollector): void {
+        this.collectors.push(collect);
+    }
+
+    removeCollector(collect: GaugeCollector): void {
+        let index = this.collectors.indexOf(collect);
+        if (index !== -1) {
+            this.collectors.splice(index, 1);
+        }
+    }
+
+    async collect(): Promise<void> {
+        for (let collect of this.collectors.slice()) {
+            await collect(this);
+        }
+    }
+
+    renderValues(): string[] {
+        return Array.from(this.values.values()).map(x => `${this.name}${this.formatLabels(x.labels)} ${x.value}`);
+    }
+}
+
+type HistogramValue = {
+    buckets: number[], // Observation counts per bucket (not cumulative)
+    sum: number,
+    count: number
+}
+
+class Histogram extends Metric<HistogramValue> {
+    readonly buckets: number[];
+
+    constructor(name: string, help: string, labelNames: string[] = [], buckets: number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]) {
+        super(name, help, labelNames);
+        this.buckets = buckets.slice().sort((a, b) => a - b);
+    }
+
+    get type() {
+        return 'histogram';
+    }
+
+    observe(labels: Labels, value: number): void {
+        let histogram = this.getOrCreate(labels, () => this.createValue()).value;
+        let bucket = this.buckets.findIndex(upperBound => value <= upperBound);
+        if (bucket !== -1) {
+            histogram.buckets[bucket]++;
+        }
+        histogram.sum += value;
+        histogram.count++;
+    }
+
+    get(labels: Labels = {}): HistogramValue {
+        return this.getOrCreate(labels, () => this.createValue()).value;
+    }
+
+    renderValues(): string[] {
+        let lines: string[] = [];
+        for (let x of Array.from(this.values.values())) {
+            let cumulative = 0;
+            this.buckets.forEach((upperBound, i) => {
+                cumulative += x.value.buckets[i];
+                lines.push(`${this.name}_bucket${this.formatLabels(x.labels, {le: `${upperBound}`})} ${cumulative}`);
+            });
+            lines.push(`${this.name}_bucket${this.formatLabels(x.labels, {le: '+Inf'})} ${x.value.count}`);
+            lines.push(`${this.name}_sum${this.formatLabels(x.labels)} ${x.value.sum}`);
+            lines.push(`${this.name}_count${this.formatLabels(x.labels)} ${x.value.count}`);
+        }
+        return lines;
+    }
+
+    private createValue(): HistogramValue {
+        return {buckets: this.buckets.map(() => 0), sum: 0, count: 0};
+    }
+}
+
+class MetricsRegistry {
+    metrics: Map<string, Metric<any>> = new Map<string, Metric<any>>();
+
+    // Registers the metric; If a metric with the same name is already registered, that metric is returned instead.
+    register<T extends Metric<any>>(metric: T): T {
+        let existing = this.metrics.get(metric.name);
+        if (existing) {
+            return <T>existing;
+        }
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    get(name: string): Metric<any> | undefined {
+        return this.metrics.get(name);
+    }
+
+    // Renders every metric in the Prometheus text exposition format (version 0.0.4).
+    async render(): Promise<string> {
+        let lines: string[] = [];
+        for (let metric of Array.from(this.metrics.values())) {
+            if (metric instanceof Gauge) {
+                await metric.collect();
+            }
+            lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+            lines.push(`# TYPE ${metric.name} ${metric.type}`);
+            lines = lines.concat(metric.renderValues());
+        }
+        return lines.join('\n') + '\n';
+    }
+}
+
+// Why a webhook was resubscribed to: Renewed by the renewal scheduler, or resubscribed through the admin routes or
+// while reconciling.
+type RenewalReason = 'scheduled' | 'admin' | 'reconciliation';
+
+// The metrics recorded by a TwitchWebhookManager.
+// Counters and histograms of managers sharing a registry are added up. Gauges are labeled with the manager they
+// describe (its hostname and base path, which no two managers can share, since their callback URLs would collide).
+class WebhookMetrics {
+    readonly registry: MetricsRegistry;
+    readonly hubRequests: Counter;
+    readonly hubRequestDuration: Histogram;
+    readonly verificationChallenges: Counter;
+    readonly subscriptionDenials: Counter;
+    readonly verificationFailures: Counter;
+    readonly notifications: Counter;
+    readonly renewals: Counter;
+    readonly activeSubscriptions: Gauge;
+    readonly nextExpirySeconds: Gauge;
+    readonly managerLabel: string;
+    private collectors: [Gauge, GaugeCollector][] = [];
+
+    constructor(manager: TwitchWebhookManager, registry: MetricsRegistry = new MetricsRegistry()) {
+        this.registry = registry;
+        this.hubRequests = registry.register(new Counter('twitch_webhooks_hub_requests_total',
+            'Requests made to the twitch hub, by hub.mode and response status.', ['mode', 'status']));
+        this.hubRequestDuration = registry.register(new Histogram('twitch_webhooks_hub_request_duration_seconds',
+            'Latency of requests made to the twitch hub.', ['mode'], [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]));
+        this.verificationChallenges = registry.register(new Counter('twitch_webhooks_verification_challenges_total',
+            'Verification challenges answered, by mode.', ['mode']));
+        this.subscriptionDenials = registry.register(new Counter('twitch_webhooks_subscription_denials_total',
+            'Subscriptions denied by the hub.'));
+        this.verificationFailures = registry.register(new Counter('twitch_webhooks_verification_failures_total',
+            'Notifications rejected because their signature or timestamp did not verify, by reason.', ['reason']));
+        this.notifications = registry.register(new Counter('twitch_webhooks_notifications_total',
+            'Notifications dispatched, by webhook type.', ['type']));
+        this.renewals = registry.register(new Counter('twitch_webhooks_renewals_total',
+            'Subscription renewals, by reason and outcome.', ['reason', 'outcome']));
+        this.managerLabel = manager.config.hostname + (manager.config.base_path ? `/${manager.config.base_path}` : '');
+        let labels = {manager: this.managerLabel};
+        this.activeSubscriptions = registry.register(new Gauge('twitch_webhooks_active_subscriptions',
+            'Subscriptions that are verified and not expired.', ['manager']));
+        this.addCollector(this.activeSubscriptions, async (gauge) => {
+            let now = Date.now();
+            let webhooks = await manager.config.persistenceManager.getAllWebhooks();
+            gauge.set(labels, webhooks.filter(x => x.subscribed && (!x.subscriptionEnd || x.subscriptionEnd.getTime() > now)).length);
+        });
+        this.nextExpirySeconds = registry.register(new Gauge('twitch_webhooks_next_expiry_seconds',
+            'Seconds until the soonest expiring subscription expires; Negative if it has lapsed.', ['manager']));
+        this.addCollector(this.nextExpirySeconds, async (gauge) => {
+            let ends = (await manager.config.persistenceManager.getAllWebhooks())
+                .filter(x => x.subscribed && x.subscriptionEnd)
+                .map(x => (<Date>x.subscriptionEnd).getTime());
+            if (ends.length > 0) {
+                gauge.set(labels, (Math.min(...ends) - Date.now()) / 1000);
+            } else {
+                gauge.remove(labels);
+            }
+        });
+    }
+
+    // Stops collecting the gauges of the manager, and removes its values from them.
+    destroy(): void {
+        for (let [gauge, collect] of this.collectors) {
+            gauge.removeCollector(collect);
+            gauge.remove({manager: this.managerLabel});
+        }
+        this.collectors = [];
+    }
+
+    private addCollector(gauge: Gauge, collect: GaugeCollector): void {
+        gauge.addCollector(collect);
+        this.collectors.push([gauge, collect]);
+    }
+
+    recordHubRequest(mode: string, status: number | 'error', seconds: number): void {
+        this.hubRequests.inc({mode: mode, status: `${status}`});
+        this.hubRequestDuration.observe({mode: mode}, seconds);
+    }
+
+    recordNotification(type: WebhookType): void {
+        this.notifications.inc({type: WebhookType[type]});
+    }
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+export {
+    RenewalReason,
+    MetricsRegistry,
+    MetricsOptions,
+    WebhookMetrics,
+    Metric,
+    Counter,
+    Gauge,
+    GaugeCollector,
+    Histogram,
+    HistogramValue,
+    Labels
+}
@@ -0,0 +1,169 @@
+/*
+* Versioned persistence schema.
+* Every WebhookPersistenceObject records the schemaVersion it was written with (objects written before versions were
+* introduced have none, and count as version 1). A WebhookMigrationRegistry upgrades older objects one version at a
+* time. MigratingTwitchWebhookPersistenceManager wraps any persistence manager to upgrade webhooks as they are read;
+* Alternatively, migrateAll() upgrades every stored webhook at once (init() does this for the configured manager).
+* */
+
+import {WebhookId} from "./webhooks";
+import {
+    delegateLeases,
+    getWebhookUserId,
+    TwitchWebhookPersistenceManager,
+    WebhookPersistenceObject
+} from "./persistence";
+
+// A webhook as it was stored with an older schema version; Fields may be missing, or no longer be part of the schema.
+type UnmigratedWebhook = { [key: string]: any } & Partial<WebhookPersistenceObject>;
+
+// Upgrades a webhook from fromVersion to fromVersion + 1. The webhook passed in is a copy, and may be changed.
+type WebhookMigration = {
+    fromVersion: number,
+    description: string,
+    migrate: (webhook: UnmigratedWebhook) => WebhookPersistenceObject | Promise<WebhookPersistenceObject>
+}
+
+const BUILT_IN_MIGRATIONS: WebhookMigration[] = [
+    {
+        fromVersion: 1,
+        description: 'Store the user whose OAuth token is used for hub calls',
+        migrate: (webhook: WebhookPersistenceObject) => {
+            webhook.userId = getWebhookUserId(webhook);
+            return webhook;
+        }
+    }
+];
+
+class WebhookMigrationRegistry {
+    private migrations: Map<number, WebhookMigration> = new Map<number, WebhookMigration>();
+
+    // Starts out with the library's own migrations; Custom migrations (for fields added by a custom persistence
+    // manager, for example) continue from WEBHOOK_SCHEMA_VERSION.
+    constructor(migrations: WebhookMigration[] = BUILT_IN_MIGRATIONS) {
+        for (let migration of migrations) {
+            this.register(migration);
+        }
+    }
+
+    // The version webhooks are migrated to.
+    get latestVersion(): number {
+        let latest = 1;
+        while (this.migrations.has(latest)) {
+            latest++;
+        }
+        return latest;
+    }
+
+    register(migration: WebhookMigration): this {
+        if (this.migrations.has(migration.fromVersion)) {
+            throw new Error(`A migration from schema version ${migration.fromVersion} is already registered!`);
+        }
+        this.migrations.set(migration.fromVersion, migration);
+        return this;
+    }
+
+    needsMigration(webhook: WebhookPersistenceObject): boolean {
+        return getSchemaVersion(webhook) < this.latestVersion;
+    }
+
+    // Returns a copy of the webhook, upgraded to the latest version. Throws if the webhook was written with a version
+    // newer than the latest one (e.g. by a newer version of this library).
+    async migrate(webhook: WebhookPersistenceObject): Promise<WebhookPersistenceObject> {
+        let version = getSchemaVersion(webhook);
+        let latestVersion = this.latestVersion;
+        if (version > latestVersion) {
+            throw new Error(`Webhook ${webhook.id} has schema version ${version}, but only versions up to ${latestVersion} are known!`);
+        }
+
+        let migrated = Object.assign({}, webhook);
+        for (; version < latestVersion; version++) {
+            let migration = <WebhookMigration>this.migrations.get(version);
+            migrated = await migration.migrate(migrated);
+            migrated.schemaVersion = version + 1;
+        }
+        return migrated;
+    }
+}
+
+function getSchemaVersion(webhook: WebhookPersistenceObject): number {
+    return webhook.schemaVersion !== undefined ? webhook.schemaVersion : 1;
+}
+
+//Upgrades and saves every stored webhook that was written with an older schema version. Resolves with the number of
+//webhooks migrated.
+async function migrateAll(persistenceManager: TwitchWebhookPersistenceManager, registry: WebhookMigrationRegistry): Promise<number> {
+    let migrated = 0;
+    for (let webhook of await persistenceManager.getAllWebhooks()) {
+        if (registry.needsMigration(webhook)) {
+            await persistenceManager.saveWebhook(await registry.migrate(webhook));
+            migrated++;
+        }
+    }
+    return migrated;
+}
+
+// Upgrades webhooks written with an older schema version as they are read, and saves the upgraded webhooks.
+class MigratingTwitchWebhookPersistenceManager implements TwitchWebhookPersistenceManager {
+    readonly persistenceManager: TwitchWebhookPersistenceManager;
+    readonly registry: WebhookMigrationRegistry;
+    acquireLease?: (key: string, ownerId: string, ttl: number) => Promise<boolean>;
+    releaseLease?: (key: string, ownerId: string) => Promise<void>;
+
+    constructor(persistenceManager: TwitchWebhookPersistenceManager, registry: WebhookMigrationRegistry = new WebhookMigrationRegistry()) {
+        this.persistenceManager = persistenceManager;
+        this.registry = registry;
+        delegateLeases(this, persistenceManager);
+    }
+
+    async deleteWebhook(webhookId: WebhookId): Promise<void> {
+        return this.persistenceManager.deleteWebhook(webhookId);
+    }
+
+    async destroy(): Promise<void> {
+        return this.persistenceManager.destroy();
+    }
+
+    async getAllWebhooks(): Promise<WebhookPersistenceObject[]> {
+        let webhooks = await this.persistenceManager.getAllWebhooks();
+        return Promise.all(webhooks.map(webhook => this.upgrade(webhook)));
+    }
+
+    async getWebhookById(webhookId: WebhookId): Promise<WebhookPersistenceObject | undefined> {
+        let webhook = await this.persistenceManager.getWebhookById(webhookId);
+        return webhook ? this.upgrade(webhook) : undefined;
+    }
+
+    // New webhooks are written with the latest version of the registry, which includes any custom migrations.
+    async persistWebhook(webhook: WebhookPersistenceObject): Promise<void> {
+        webhook.schemaVersion = this.registry.latestVersion;
+        return this.persistenceManager.persistWebhook(webhook);
+    }
+
+    async saveWebhook(webhook: WebhookPersistenceObject): Promise<void> {
+        return this.persistenceManager.saveWebhook(webhook);
+    }
+
+    // Upgrades every stored webhook at once, for backends that prefer an offline upgrade.
+    async migrateAll(): Promise<number> {
+        return migrateAll(this.persistenceManager, this.registry);
+    }
+
+    private async upgrade(webhook: WebhookPersistenceObject): Promise<WebhookPersistenceObject> {
+        if (!this.registry.needsMigration(webhook)) {
+            return webhook;
+        }
+        let migrated = await this.registry.migrate(webhook);
+        await this.persistenceManager.saveWebhook(migrated);
+        return migrated;
+    }
+}
+
+export {
+    UnmigratedWebhook,
+    WebhookMigration,
+    BUILT_IN_MIGRATIONS,
+    WebhookMigrationRegistry,
+    migrateAll,
+    MigratingTwitchWebhookPersistenceManager
+}
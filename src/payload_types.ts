@@ -160,10 +160,17 @@ type SubscriptionSubParams = {
     gifter_name?: string
 }
 
+// A WebSub notification's data array may hold several items; Each is dispatched as its own payload.
+type PayloadBatch = {
+    index: number, // Position of the item in the delivery's data array
+    size: number // Number of items in the delivery's data array; 0 for a StreamChanged notification of a stream going offline
+}
+
 //BASE WEBHOOK EVENT OBJECT
 // On a human note, conditional types are so f***ing cool! Try doing THIS in Java!
 type WebhookPayload<T extends WebhookType> = {
     type: T,
+    notificationId?: string, // Twitch-Notification-Id (or Twitch-Eventsub-Message-Id for EventSub) of the delivery
     data: T extends WebhookType.UserFollows ? FollowEvent :
         T extends WebhookType.StreamChanged ? StreamChangedEvent :
             T extends WebhookType.UserChanged ? UserChangedEvent :
@@ -179,20 +186,24 @@ type WebhookPayload<T extends WebhookType> = {
                     T extends WebhookType.ModeratorChange ? ModeratorChangedSubParams :
                         T extends WebhookType.ChannelBanChange ? ChannelBanChangedSubParams :
                             T extends WebhookType.Subscription ? SubscriptionSubParams :
-                                any
+                                any,
+    replayed?: boolean, // True if the payload was replayed from the notification journal
+    batch?: PayloadBatch // WebSub only; Which item of the delivery (identified by notificationId) this payload is
 }
 
 
 //Converts payload to internal format. For now, that just means parsing dates out into actual Date objects
 function convertPayload(type: WebhookType, obj: { [key: string]: any }): { [key: string]: any } {
+    if (typeof obj !== 'object' || obj === null) {
+        //Nothing to convert; Left as it is for validation to reject.
+        return obj;
+    }
     switch (type) {
         case WebhookType.UserFollows:
             obj.followed_at = unixTimestampToDate(obj.followed_at);
             break;
         case WebhookType.StreamChanged:
-            if (obj !== undefined) {
-                obj.started_at = unixTimestampToDate(obj.started_at);
-            }
+            obj.started_at = unixTimestampToDate(obj.started_at);
             break;
         case WebhookType.ExtensionTransactionCreated:
             obj.timestamp = unixTimestampToDate(obj.timestamp);
@@ -208,6 +219,15 @@ function convertPayload(type: WebhookType, obj: { [key: string]: any }): { [key:
     return obj;
 }
 
+//Converts every item of a WebSub notification's data array. An empty StreamChanged array means the stream went offline,
+//which converts to a single undefined item; For other types, an empty array converts to no items.
+function convertPayloadItems(type: WebhookType, data: { [key: string]: any }[]): ({ [key: string]: any } | undefined)[] {
+    if (data.length === 0) {
+        return type === WebhookType.StreamChanged ? [undefined] : [];
+    }
+    return data.map(item => convertPayload(type, item));
+}
+
 export {
     FollowEvent,
     StreamChangedEvent,
@@ -230,5 +250,7 @@ export {
     ChannelBanChangedSubParams,
     SubscriptionSubParams,
     WebhookPayload,
-    convertPayload
+    PayloadBatch,
+    convertPayload,
+    convertPayloadItems
 }
\ No newline at end of file
@@ -3,9 +3,14 @@ import {
     WebhookId
 } from "./webhooks";
 import * as crypto from "crypto";
-import {WebhookOptions, WebhookType, WebhookTypeEndpoint, WebhookTypeTopic} from "./config";
+import * as fs from "fs";
+import {WebhookOptions, WebhookTransport, WebhookType, WebhookTypeEndpoint, WebhookTypeTopic} from "./config";
+
+// Version of the WebhookPersistenceObject shape written by this version of the library. See migrations.ts.
+const WEBHOOK_SCHEMA_VERSION = 2;
 
 type WebhookPersistenceObject = {
+    schemaVersion?: number, // Schema version the webhook was written with; Undefined for webhooks written before versions were introduced (version 1)
     id: WebhookId,
     type: WebhookType,
     href: string,
@@ -13,7 +18,12 @@ type WebhookPersistenceObject = {
     subscriptionStart?: Date,
     subscriptionEnd?: Date,
     secret: string,
-    leaseSeconds: number
+    leaseSeconds: number,
+    transport?: WebhookTransport, // If undefined, the webhook uses the WebSub hub.
+    eventSubIds?: string[], // Ids of the EventSub subscriptions backing this webhook (EventSub transport only)
+    userId?: string, // User whose OAuth token is used for hub calls (e.g. the broadcaster of a Subscription topic); Undefined if any token will do
+    previousSecret?: string, // Secret before the last rotation; Notifications signed with it are accepted until previousSecretExpiresAt
+    previousSecretExpiresAt?: Date
 }
 
 interface TwitchWebhookPersistenceManager {
@@ -28,16 +38,56 @@ interface TwitchWebhookPersistenceManager {
     getWebhookById(webhookId: WebhookId): Promise<WebhookPersistenceObject | undefined>;
 
     destroy(): Promise<void>;
+
+    // Optional leases, used by CoordinatedWebhookRenewalScheduler so that only one of several instances sharing this
+    // backend renews each webhook. Acquires the lease on key for ttl milliseconds, or extends it if ownerId already
+    // holds it; Resolves to true if ownerId holds the lease afterwards. Must be atomic across instances.
+    acquireLease?(key: string, ownerId: string, ttl: number): Promise<boolean>;
+
+    // Releases the lease on key, if ownerId holds it.
+    releaseLease?(key: string, ownerId: string): Promise<void>;
+}
+
+//For persistence managers that wrap another one (e.g. to encrypt or migrate webhooks): Leases are only supported if
+//the wrapped persistence manager supports them, and are handled by it as they are.
+function delegateLeases(wrapper: TwitchWebhookPersistenceManager, persistenceManager: TwitchWebhookPersistenceManager): void {
+    if (persistenceManager.acquireLease && persistenceManager.releaseLease) {
+        wrapper.acquireLease = persistenceManager.acquireLease.bind(persistenceManager);
+        wrapper.releaseLease = persistenceManager.releaseLease.bind(persistenceManager);
+    }
+}
+
+type Lease = {
+    ownerId: string,
+    expiresAt: number // Epoch ms
 }
 
 class MemoryBasedTwitchWebhookPersistenceManager implements TwitchWebhookPersistenceManager {
     webhooks: Map<WebhookId, WebhookPersistenceObject> = new Map<string, WebhookPersistenceObject>();
+    leases: Map<string, Lease> = new Map<string, Lease>();
+
+    async acquireLease(key: string, ownerId: string, ttl: number): Promise<boolean> {
+        let lease = this.leases.get(key);
+        if (lease && lease.ownerId !== ownerId && lease.expiresAt > Date.now()) {
+            return false;
+        }
+        this.leases.set(key, {ownerId: ownerId, expiresAt: Date.now() + ttl});
+        return true;
+    }
+
+    async releaseLease(key: string, ownerId: string): Promise<void> {
+        let lease = this.leases.get(key);
+        if (lease && lease.ownerId === ownerId) {
+            this.leases.delete(key);
+        }
+    }
 
     async deleteWebhook(webhookId: WebhookId): Promise<void> {
         this.webhooks.delete(webhookId);
     }
 
     async destroy(): Promise<void> {
+        this.leases.clear();
         return this.webhooks.clear();
     }
 
@@ -62,19 +112,181 @@ class MemoryBasedTwitchWebhookPersistenceManager implements TwitchWebhookPersist
     }
 }
 
+// Fields of WebhookPersistenceObject that are Dates; JSON turns these into strings, so they are revived on load.
+const WEBHOOK_DATE_FIELDS = ['subscriptionStart', 'subscriptionEnd', 'previousSecretExpiresAt'];
+
+// Persists webhooks to a single JSON file. Small deployments can use this to keep renewing webhooks across restarts.
+// Every write goes to a temp file that is renamed over the original, so a crash mid-write leaves the last complete
+// state on disk.
+class FileBasedTwitchWebhookPersistenceManager implements TwitchWebhookPersistenceManager {
+    readonly filePath: string;
+    private file: CachedJsonFile<Map<WebhookId, WebhookPersistenceObject>>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.file = new CachedJsonFile(filePath, readWebhookFile);
+    }
+
+    async deleteWebhook(webhookId: WebhookId): Promise<void> {
+        let webhooks = await this.load();
+        webhooks.delete(webhookId);
+        await this.write(webhooks);
+    }
+
+    // Waits for outstanding writes; The file is left intact.
+    async destroy(): Promise<void> {
+        return this.file.close();
+    }
+
+    async getAllWebhooks(): Promise<WebhookPersistenceObject[]> {
+        return Array.from((await this.load()).values()).map(webhook => Object.assign({}, webhook));
+    }
+
+    async getWebhookById(id: WebhookId): Promise<WebhookPersistenceObject | undefined> {
+        let webhook = (await this.load()).get(id);
+        if (webhook) {
+            return Object.assign({}, webhook);
+        }
+        return undefined;
+    }
+
+    async persistWebhook(webhook: WebhookPersistenceObject): Promise<void> {
+        return this.saveWebhook(webhook);
+    }
+
+    async saveWebhook(webhook: WebhookPersistenceObject): Promise<void> {
+        let webhooks = await this.load();
+        webhooks.set(webhook.id, Object.assign({}, webhook));
+        await this.write(webhooks);
+    }
+
+    private load(): Promise<Map<WebhookId, WebhookPersistenceObject>> {
+        return this.file.load();
+    }
+
+    private write(webhooks: Map<WebhookId, WebhookPersistenceObject>): Promise<void> {
+        return this.file.write(JSON.stringify({webhooks: Array.from(webhooks.values())}, null, 2));
+    }
+}
+
+async function readWebhookFile(filePath: string): Promise<Map<WebhookId, WebhookPersistenceObject>> {
+    let webhooks = new Map<WebhookId, WebhookPersistenceObject>();
+    let contents: string;
+    try {
+        contents = await fs.promises.readFile(filePath, 'utf8');
+    } catch (e) {
+        if (e.code === 'ENOENT') {
+            return webhooks;
+        }
+        throw e;
+    }
+
+    let parsed: { webhooks: WebhookPersistenceObject[] } = JSON.parse(contents, (key, value) => {
+        if (WEBHOOK_DATE_FIELDS.indexOf(key) !== -1 && typeof value === 'string') {
+            return new Date(value);
+        }
+        return value;
+    });
+    for (let webhook of parsed.webhooks) {
+        webhooks.set(webhook.id, webhook);
+    }
+    return webhooks;
+}
+
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+    let tempPath = `${filePath}.tmp`;
+    let handle = await fs.promises.open(tempPath, 'w');
+    try {
+        await handle.writeFile(contents, 'utf8');
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await fs.promises.rename(tempPath, filePath);
+}
+
+// The in-memory contents of a JSON file, for the file-based stores. The file is read once, and written back atomically.
+class CachedJsonFile<T> {
+    readonly filePath: string;
+    private readonly read: (filePath: string) => Promise<T>;
+    private contents: Promise<T> | undefined;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string, read: (filePath: string) => Promise<T>) {
+        this.filePath = filePath;
+        this.read = read;
+    }
+
+    // A failed read isn't kept; The next call reads the file again, so a transient error doesn't stick.
+    load(): Promise<T> {
+        if (!this.contents) {
+            let contents = this.read(this.filePath);
+            this.contents = contents;
+            contents.catch(() => {
+                if (this.contents === contents) {
+                    this.contents = undefined;
+                }
+            });
+        }
+        return this.contents;
+    }
+
+    // Writes are queued so that two writes never race for the temp file.
+    write(contents: string): Promise<void> {
+        this.writeQueue = this.writeQueue
+            .catch(() => {
+                //A failed write has already been reported to its caller.
+            })
+            .then(() => writeFileAtomic(this.filePath, contents));
+        return this.writeQueue;
+    }
+
+    // Waits for outstanding writes; The contents are read again on the next load.
+    async close(): Promise<void> {
+        await this.writeQueue;
+        this.contents = undefined;
+    }
+}
+
 function createWebhookPersistenceObject(manager: TwitchWebhookManager, type: WebhookType, params: Map<string, string>,
-                                        options: WebhookOptions): WebhookPersistenceObject {
+                                        options: WebhookOptions, userId?: string): WebhookPersistenceObject {
     let paramString = computeTopicParamString(params);
     let secret = options.secret || manager.config.secret;
     let href = WebhookTypeTopic.get(type) + paramString;
-    let hashedSecret = crypto.createHmac('sha256', <string>secret).update(href).digest('hex');
     return {
+        schemaVersion: manager.config.migrations.latestVersion,
         id: WebhookTypeEndpoint.get(type) + paramString,
         type: type,
         href: href,
         subscribed: false,
-        secret: hashedSecret,
-        leaseSeconds: options.leaseSeconds || 864000
+        secret: deriveWebhookSecret(<string>secret, href),
+        leaseSeconds: options.leaseSeconds || 864000,
+        transport: options.transport || manager.config.transport,
+        userId: userId
+    }
+}
+
+//Each webhook gets its own secret, derived from the base secret and its topic.
+function deriveWebhookSecret(secret: string, href: string): string {
+    return crypto.createHmac('sha256', secret).update(href).digest('hex');
+}
+
+//The user whose token the webhook's hub calls need. Webhooks persisted before userId was stored don't have it until
+//they are migrated; For those, it is derived from the topic, the same way it was derived when they were subscribed to.
+function getWebhookUserId(webhook: WebhookPersistenceObject): string | undefined {
+    if (webhook.userId !== undefined) {
+        return webhook.userId;
+    }
+    let params = new URL(webhook.href).searchParams;
+    switch (webhook.type) {
+        case WebhookType.UserChanged:
+            return params.get('id') || undefined;
+        case WebhookType.ModeratorChange:
+        case WebhookType.ChannelBanChange:
+        case WebhookType.Subscription:
+            return params.get('broadcaster_id') || undefined;
+        default:
+            return undefined;
     }
 }
 
@@ -102,6 +314,13 @@ export {
     TwitchWebhookPersistenceManager,
     WebhookPersistenceObject,
     MemoryBasedTwitchWebhookPersistenceManager,
+    FileBasedTwitchWebhookPersistenceManager,
     getIdFromTypeAndParams,
-    createWebhookPersistenceObject
+    createWebhookPersistenceObject,
+    deriveWebhookSecret,
+    getWebhookUserId,
+    delegateLeases,
+    WEBHOOK_SCHEMA_VERSION,
+    writeFileAtomic,
+    CachedJsonFile
 }
\ No newline at end of file
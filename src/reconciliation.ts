@@ -0,0 +1,188 @@
+/*
+* Code for reconciling persisted webhooks against the subscriptions twitch reports as active.
+* After a crash, local state drifts from twitch's: verifications may have been lost, leases may have run out while
+* the service was down, and subscriptions may exist that nothing local knows about anymore.
+* */
+
+import got from 'got';
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookTransport} from "./config";
+import {WebhookPersistenceObject} from "./persistence";
+import {createErrorFromResponse} from "./errors";
+import {getCallbackUrl} from "./util";
+
+const TWITCH_WEBHOOK_SUBSCRIPTIONS_URL = "https://api.twitch.tv/helix/webhooks/subscriptions";
+
+// A subscription as listed by GET /webhooks/subscriptions.
+type HubSubscription = {
+    topic: string,
+    callback: string,
+    expires_at: string
+}
+
+type ReconcileOptions = {
+    unsubscribeOrphans?: boolean // If true, orphaned subscriptions are unsubscribed from. Otherwise they are only reported.
+}
+
+type ReconciliationReport = {
+    inSync: WebhookId[], // Webhooks twitch reports as active; Their lease expiry is updated to twitch's.
+    resubscribed: WebhookId[], // Webhooks that were missing upstream, and were resubscribed to.
+    expired: WebhookId[], // Webhooks whose lease had expired; These are marked as not subscribed (and resubscribed to).
+    skipped: WebhookId[], // EventSub webhooks; These aren't listed by the hub.
+    failed: { webhookId: WebhookId, error: Error }[], // Webhooks that could not be resubscribed to.
+    orphaned: HubSubscription[], // Upstream subscriptions pointing at our callback URLs, without a persisted webhook.
+    unsubscribedOrphans: HubSubscription[] // Orphaned subscriptions that were unsubscribed from (if unsubscribeOrphans is set).
+}
+
+//Pages through all subscriptions twitch reports as active for the client id.
+async function listHubSubscriptions(manager: TwitchWebhookManager): Promise<HubSubscription[]> {
+    let subscriptions: HubSubscription[] = [];
+    //Listing subscriptions requires an app access token.
+    let token = await manager.config.getOAuthToken();
+    let cursor: string | undefined;
+    do {
+        let url = new URL(manager.config.webhookSubscriptionsUrl);
+        url.searchParams.set('first', '100');
+        if (cursor) {
+            url.searchParams.set('after', cursor);
+        }
+
+        let doRequest = (token: string) => got(url.href, {
+            headers: {
+                "Authorization": `Bearer ${token}`,
+                "Client-ID": manager.config.client_id
+            },
+            timeout: 10000,
+            retry: 0,
+            throwHttpErrors: false
+        });
+
+        let resp = await doRequest(token);
+        if (resp.statusCode === 401) {
+            //Retry
+            token = await manager.config.refreshOAuthToken(token);
+            resp = await doRequest(token);
+        }
+
+        if (Math.floor(resp.statusCode / 100) !== 2) {
+            throw createErrorFromResponse(resp, resp.body) || new Error('Unknown error when listing webhook subscriptions: ' + resp.body);
+        }
+
+        let page = JSON.parse(resp.body);
+        subscriptions = subscriptions.concat(page.data || []);
+        cursor = page.pagination && page.data && page.data.length > 0 ? page.pagination.cursor : undefined;
+    } while (cursor);
+    return subscriptions;
+}
+
+//Whether the callback URL is one of the manager's webhook callback URLs.
+function isOwnCallback(manager: TwitchWebhookManager, callback: string): boolean {
+    if (callback.indexOf(manager.config.hostname) !== 0) {
+        return false;
+    }
+    let path = new URL(callback.substring(manager.config.hostname.length), 'http://localhost').pathname;
+    return manager.requestHandler.isWebhookPath(path);
+}
+
+//Compares persisted webhooks with the subscriptions twitch reports, and fixes any drift.
+async function reconcile(manager: TwitchWebhookManager, options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    let report: ReconciliationReport = {
+        inSync: [],
+        resubscribed: [],
+        expired: [],
+        skipped: [],
+        failed: [],
+        orphaned: [],
+        unsubscribedOrphans: []
+    };
+
+    let upstream = new Map<string, HubSubscription>();
+    for (let subscription of await listHubSubscriptions(manager)) {
+        upstream.set(subscription.callback, subscription);
+    }
+
+    let now = Date.now();
+    let webhooks = await manager.config.persistenceManager.getAllWebhooks();
+    let ownCallbacks = new Set<string>();
+    for (let webhook of webhooks) {
+        if (webhook.transport === WebhookTransport.EventSub) {
+            report.skipped.push(webhook.id);
+            continue;
+        }
+
+        let callback = getCallbackUrl(manager, webhook);
+        ownCallbacks.add(callback);
+        let subscription = upstream.get(callback);
+        if (subscription) {
+            await markActive(manager, webhook, new Date(subscription.expires_at));
+            if (manager.config.renewalScheduler) {
+                manager.config.renewalScheduler.removeFromScheduler(webhook.id);
+                manager.config.renewalScheduler.addToScheduler(webhook);
+            }
+            report.inSync.push(webhook.id);
+            continue;
+        }
+
+        manager.config.logger.info(`Webhook ${webhook.id} is missing upstream; Resubscribing.`);
+        if (webhook.subscriptionEnd && webhook.subscriptionEnd.getTime() <= now) {
+            webhook.subscribed = false;
+            await manager.config.persistenceManager.saveWebhook(webhook);
+            report.expired.push(webhook.id);
+        }
+
+        try {
+            await manager.resubscribePersistenceObject(webhook, 'reconciliation');
+            report.resubscribed.push(webhook.id);
+        } catch (e) {
+            manager.config.logger.error(`Failed to resubscribe to ${webhook.id} while reconciling: `, e);
+            report.failed.push({webhookId: webhook.id, error: e});
+            //Leave it to the renewal scheduler, which retries it once it's due (right away, if it has expired).
+            if (manager.config.renewalScheduler) {
+                manager.config.renewalScheduler.removeFromScheduler(webhook.id);
+                manager.config.renewalScheduler.addToScheduler(webhook.subscriptionStart && webhook.subscriptionEnd ? webhook :
+                    Object.assign({}, webhook, {subscriptionStart: new Date(now), subscriptionEnd: new Date(now)}));
+            }
+        }
+    }
+
+    for (let subscription of Array.from(upstream.values())) {
+        if (ownCallbacks.has(subscription.callback) || !isOwnCallback(manager, subscription.callback)) {
+            continue;
+        }
+
+        report.orphaned.push(subscription);
+        if (options.unsubscribeOrphans) {
+            manager.config.logger.info(`Unsubscribing from orphaned subscription ${subscription.callback}`);
+            try {
+                await manager.unsubscribeFromHubSubscription(subscription.callback, subscription.topic);
+                report.unsubscribedOrphans.push(subscription);
+            } catch (e) {
+                manager.config.logger.error(`Failed to unsubscribe from orphaned subscription ${subscription.callback}: `, e);
+            }
+        } else {
+            manager.config.logger.info(`Found orphaned subscription ${subscription.callback}`);
+        }
+    }
+
+    return report;
+}
+
+//Twitch still has the subscription; Its expiry is authoritative.
+async function markActive(manager: TwitchWebhookManager, webhook: WebhookPersistenceObject, expiresAt: Date) {
+    if (webhook.subscribed && webhook.subscriptionEnd && webhook.subscriptionEnd.getTime() === expiresAt.getTime()) {
+        return;
+    }
+    webhook.subscribed = true;
+    webhook.subscriptionStart = webhook.subscriptionStart || new Date();
+    webhook.subscriptionEnd = expiresAt;
+    await manager.config.persistenceManager.saveWebhook(webhook);
+}
+
+export {
+    TWITCH_WEBHOOK_SUBSCRIPTIONS_URL,
+    HubSubscription,
+    ReconcileOptions,
+    ReconciliationReport,
+    listHubSubscriptions,
+    reconcile
+}
@@ -0,0 +1,496 @@
+/*
+* Transport-neutral handling of requests made to the webhook callback URLs.
+* The handler takes a method, URL, headers and raw body, and returns a status, headers and body; Adapters for
+* specific HTTP frameworks (see adapters.ts) only need to translate to and from these objects.
+* */
+
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookTransport, WebhookType} from "./config";
+import {getIdFromTypeAndParams, WebhookPersistenceObject} from "./persistence";
+import {convertPayload, convertPayloadItems, WebhookPayload} from "./payload_types";
+import {validatePayloadData} from "./validation";
+import {getEndpointPath, getWebhookParamsFromId} from "./util";
+import {SignatureVerificationError, SubscriptionDeniedError} from "./errors";
+import {checkNotificationAge, verifyHubSignature} from "./verification";
+import {isPreviousSecretValid} from "./secrets";
+import {ADMIN_PATH_PREFIXES, AdminRoutes} from "./admin";
+import {
+    convertEventSubEvent,
+    deleteEventSubSubscriptions,
+    EVENTSUB_MESSAGE_ID_HEADER,
+    EVENTSUB_MESSAGE_SIGNATURE_HEADER,
+    EVENTSUB_MESSAGE_TIMESTAMP_HEADER,
+    EVENTSUB_MESSAGE_TYPE_HEADER,
+    EventSubMessage,
+    EventSubMessageType,
+    verifyEventSubSignature
+} from "./eventsub";
+
+const HUB_SIGNATURE_HEADER = "X-Hub-Signature";
+const NOTIFICATION_ID_HEADER = "Twitch-Notification-Id";
+const NOTIFICATION_TIMESTAMP_HEADER = "Twitch-Notification-Timestamp";
+const METRICS_PATH = "/_metrics";
+
+type WebhookRequest = {
+    method: string,
+    url: string, // Path and query string of the request, e.g. /webhooks/follows?first=1&to_id=1
+    headers: { [key: string]: string | string[] | undefined }, // Header names are matched case-insensitively
+    body: Buffer // Raw request body; Needed as-is to verify signatures.
+}
+
+type WebhookResponse = {
+    status: number,
+    headers: { [key: string]: string },
+    body?: string
+}
+
+class WebhookRequestHandler {
+    readonly manager: TwitchWebhookManager;
+    readonly admin: AdminRoutes | undefined;
+
+    constructor(manager: TwitchWebhookManager) {
+        this.manager = manager;
+        if (manager.config.admin) {
+            this.admin = new AdminRoutes(manager, manager.config.admin);
+        }
+    }
+
+    // Whether the path is one of the webhook callback (or admin) paths; Useful for adapters that share a server with other routes.
+    isWebhookPath(pathname: string): boolean {
+        return this.getWebhookType(pathname) !== undefined || (!!this.admin && this.admin.isAdminPath(pathname)) ||
+            this.isMetricsPath(pathname);
+    }
+
+    // Paths served besides the callback endpoints (admin routes and metrics, if enabled); Adapters mount these as prefixes.
+    getAdditionalPaths(): string[] {
+        let basePath = this.manager.config.base_path ? '/' + this.manager.config.base_path : '';
+        let paths = this.admin ? ADMIN_PATH_PREFIXES.map(prefix => basePath + prefix) : [];
+        if (this.manager.config.metrics && this.manager.config.metrics.endpoint) {
+            paths.push(basePath + METRICS_PATH);
+        }
+        return paths;
+    }
+
+    async handle(request: WebhookRequest): Promise<WebhookResponse> {
+        let url = new URL(request.url, this.manager.config.hostname);
+        if (this.admin && this.admin.isAdminPath(url.pathname)) {
+            return this.admin.handle(request, url);
+        }
+
+        if (this.isMetricsPath(url.pathname)) {
+            if (request.method.toUpperCase() !== 'GET') {
+                return {status: 405, headers: {"Allow": "GET"}};
+            }
+            return {
+                status: 200,
+                headers: {"Content-Type": "text/plain; version=0.0.4"},
+                body: await this.manager.metrics.registry.render()
+            };
+        }
+
+        let type = this.getWebhookType(url.pathname);
+        if (type === undefined) {
+            return {status: 404, headers: {}};
+        }
+
+        let headers = normalizeHeaders(request.headers);
+        switch (request.method.toUpperCase()) {
+            case 'GET':
+                return this.handleHubVerification(type, url);
+            case 'POST':
+                return this.handleNotification(type, url, headers, request.body);
+            default:
+                return {status: 405, headers: {"Allow": "GET, POST"}};
+        }
+    }
+
+    // Dispatches the payload through the 'message' and typed events.
+    dispatch(webhookId: WebhookId, payload: WebhookPayload<any>): void {
+        this.manager.config.logger.debug('Got message: ', payload);
+        this.manager.metrics.recordNotification(payload.type);
+        //Registered handlers first; A listener that throws must not keep the payload from them.
+        this.manager.handlers.dispatch(webhookId, payload);
+        this.manager.emit('message', webhookId, payload);
+        this.emitSpecificEvent(webhookId, payload);
+        if (payload.type === WebhookType.StreamChanged) {
+            this.manager.streamLifecycle.handle(webhookId, payload);
+        }
+    }
+
+    // Validates, converts and dispatches every item of a WebSub notification's data array.
+    dispatchNotification(webhookId: WebhookId, type: WebhookType, notificationId: string | undefined, data: any[], replayed: boolean = false): void {
+        let items = data.length === 0 ? convertPayloadItems(type, data) : data;
+        if (items.length === 0) {
+            this.manager.config.logger.info(`Got notification ${notificationId} for ${webhookId} with an empty data array; Nothing to dispatch.`);
+            return;
+        }
+
+        items.forEach((item, index) => {
+            //Validated before it is converted, so errors report the values twitch sent.
+            if (!this.validatePayload(webhookId, type, item)) {
+                return;
+            }
+
+            let payload: WebhookPayload<any> = {
+                type: type,
+                notificationId: notificationId,
+                data: convertPayload(type, <{ [key: string]: any }>item),
+                subParams: getWebhookParamsFromId(type, webhookId),
+                batch: {index: index, size: data.length}
+            };
+            if (replayed) {
+                payload.replayed = true;
+            }
+            this.dispatch(webhookId, payload);
+        });
+    }
+
+    private isMetricsPath(pathname: string): boolean {
+        let metrics = this.manager.config.metrics;
+        return !!metrics && !!metrics.endpoint &&
+            pathname === (this.manager.config.base_path ? '/' + this.manager.config.base_path : '') + METRICS_PATH;
+    }
+
+    private getWebhookType(pathname: string): WebhookType | undefined {
+        for (let type of Object.keys(WebhookType).filter(x => !isNaN(Number(x)))) {
+            if (getEndpointPath(this.manager.config.base_path, Number(type)) === pathname) {
+                return Number(type);
+            }
+        }
+        return undefined;
+    }
+
+    // GET requests are sent by the hub to verify (un)subscriptions.
+    private async handleHubVerification(type: WebhookType, url: URL): Promise<WebhookResponse> {
+        if (!url.searchParams.get("hub.topic")) {
+            this.manager.config.logger.error('hub.topic not found in search params.');
+            return {status: 400, headers: {}};
+        }
+
+        let topicURL = new URL(decodeURIComponent(<string>url.searchParams.get("hub.topic")));
+        let webhookId = getIdFromTypeAndParams(type, topicURL.search);
+        let webhook = await this.manager.config.persistenceManager.getWebhookById(webhookId);
+
+        let mode = url.searchParams.get("hub.mode");
+        if (!webhook && mode === 'unsubscribe') {
+            //Nothing persisted wants this subscription (e.g. an orphan found while reconciling); Confirm the unsubscription.
+            this.manager.config.logger.info(`Confirming unsubscription from unknown webhook URL: ${topicURL.href}`);
+            this.manager.metrics.verificationChallenges.inc({mode: mode});
+            return {
+                status: 200,
+                headers: {"Content-Type": "text/plain"},
+                body: url.searchParams.get("hub.challenge") || ''
+            };
+        }
+
+        if (!webhook) {
+            this.manager.config.logger.error(`Got GET for unknown webhook URL: ${topicURL.href}`);
+            return {status: 404, headers: {}};
+        }
+
+        let verifiedWebhook = webhook;
+        if (!mode || mode === "denied") {
+            let reason = url.searchParams.get("hub.reason") || 'No reason given';
+            this.manager.config.logger.error(`Subscription denied. reason: ${reason}`);
+            this.manager.metrics.subscriptionDenials.inc();
+            this.afterResponse(async () => {
+                await this.manager.config.persistenceManager.deleteWebhook(webhookId);
+                this.manager.emit('error', new SubscriptionDeniedError(verifiedWebhook, reason));
+            });
+            return {status: 200, headers: {}};
+        }
+
+        this.manager.metrics.verificationChallenges.inc({mode: mode});
+        if (mode === 'unsubscribe') {
+            //Confirming unsubscription!
+            this.afterResponse(async () => {
+                await this.manager.config.persistenceManager.deleteWebhook(verifiedWebhook.id);
+                this.manager.config.logger.info(`Confirmed unsubscription from webhook ${verifiedWebhook.id}`);
+                this.manager.emit('unsubscribed', verifiedWebhook.id);
+            });
+        } else {
+            verifiedWebhook.subscriptionStart = new Date();
+
+            if (url.searchParams.get("hub.lease_seconds")) {
+                verifiedWebhook.subscriptionEnd = new Date(verifiedWebhook.subscriptionStart.getTime() + parseInt(<string>url.searchParams.get("hub.lease_seconds")) * 1000);
+            } else {
+                verifiedWebhook.subscriptionEnd = new Date(Date.now() + verifiedWebhook.leaseSeconds * 1000); // Assume lease seconds we sent is respected.
+            }
+
+            verifiedWebhook.subscribed = true;
+            this.afterResponse(async () => {
+                await this.manager.config.persistenceManager.saveWebhook(verifiedWebhook);
+                this.manager.config.logger.info(`Subscription for ${verifiedWebhook.id} verified!`);
+                this.manager.config.logger.debug('Subscribed to webhook: ', verifiedWebhook);
+                this.manager.emit("subscribed", webhookId);
+                this.scheduleRenewal(verifiedWebhook);
+            });
+        }
+
+        return {
+            status: 200,
+            headers: {"Content-Type": "text/plain"},
+            body: url.searchParams.get("hub.challenge") || ''
+        };
+    }
+
+    // POST requests are notifications (and, for EventSub, challenges and revocations). All of them are signed.
+    private async handleNotification(type: WebhookType, url: URL, headers: { [key: string]: string }, body: Buffer): Promise<WebhookResponse> {
+        let webhookId = getIdFromTypeAndParams(type, url.search);
+        let webhook = await this.manager.config.persistenceManager.getWebhookById(webhookId);
+        if (!webhook) {
+            this.manager.config.logger.error(`Got POST for unknown webhook URL: ${url.pathname + url.search}`);
+            return {status: 404, headers: {}};
+        }
+
+        let isEventSub = !!headers[EVENTSUB_MESSAGE_SIGNATURE_HEADER.toLowerCase()];
+        try {
+            this.verifyNotification(webhook, isEventSub, headers, body);
+        } catch (e) {
+            this.manager.config.logger.error(`Rejecting request: ${e.message}`);
+            //StaleNotificationErrors have no reason.
+            this.manager.metrics.verificationFailures.inc({reason: e.reason || 'stale'});
+            this.manager.emit('verificationFailed', e, webhook.id);
+            return {status: isEventSub ? 403 : 400, headers: {}};
+        }
+
+        let message: any;
+        try {
+            message = JSON.parse(body.toString("utf8"));
+        } catch (e) {
+            this.manager.config.logger.error(`Got POST with a body that isn't valid JSON for ${webhook.id}`);
+            return {status: 400, headers: {}};
+        }
+
+        if (!isEventSub && (!message || !Array.isArray(message.data))) {
+            this.manager.config.logger.error(`Got POST without a data array for ${webhook.id}`);
+            return {status: 400, headers: {}};
+        }
+
+        //Journaled before responding, so nothing is acknowledged without being recorded; If journaling fails, twitch retries the delivery.
+        let journal = this.manager.config.journal;
+        if (journal && (!isEventSub || headers[EVENTSUB_MESSAGE_TYPE_HEADER.toLowerCase()] === EventSubMessageType.Notification)) {
+            try {
+                await journal.append({
+                    webhookId: webhook.id,
+                    type: webhook.type,
+                    transport: isEventSub ? WebhookTransport.EventSub : WebhookTransport.WebSub,
+                    notificationId: headers[(isEventSub ? EVENTSUB_MESSAGE_ID_HEADER : NOTIFICATION_ID_HEADER).toLowerCase()],
+                    timestamp: headers[(isEventSub ? EVENTSUB_MESSAGE_TIMESTAMP_HEADER : NOTIFICATION_TIMESTAMP_HEADER).toLowerCase()],
+                    receivedAt: new Date(),
+                    body: body.toString("utf8")
+                });
+            } catch (e) {
+                this.manager.config.logger.error(`Failed to journal notification for ${webhook.id}: `, e);
+                return {status: 500, headers: {}};
+            }
+        }
+
+        if (isEventSub) {
+            return this.handleEventSubMessage(webhook, headers, message);
+        }
+
+        let notificationId = headers[NOTIFICATION_ID_HEADER.toLowerCase()];
+        this.afterResponse(async () => {
+            if (await this.isDuplicateNotification(notificationId)) {
+                return;
+            }
+            this.dispatchNotification(webhookId, type, notificationId, message.data);
+        });
+        return {status: 200, headers: {}};
+    }
+
+    //Returns false if the payload must not be dispatched (see PayloadValidationMode).
+    private validatePayload(webhookId: WebhookId, type: WebhookType, data: any): boolean {
+        let mode = this.manager.config.payloadValidation;
+        if (mode === 'off') {
+            return true;
+        }
+
+        try {
+            validatePayloadData(type, data);
+            return true;
+        } catch (e) {
+            e.webhookId = webhookId;
+            this.manager.emit('payloadValidationFailed', e, webhookId, mode === 'lenient');
+            if (mode === 'strict') {
+                this.manager.config.logger.error(`Dropping payload for ${webhookId}: ${e.message}`);
+                //Without a listener, emitting 'error' throws, and the rest of the batch would be dropped with it.
+                if (this.manager.listenerCount('error') > 0) {
+                    this.manager.emit('error', e, webhookId);
+                }
+                return false;
+            }
+            this.manager.config.logger.error(`Dispatching payload for ${webhookId} despite: ${e.message}`);
+            return true;
+        }
+    }
+
+    //Throws a SignatureVerificationError or StaleNotificationError if the notification can't be trusted.
+    private verifyNotification(webhook: WebhookPersistenceObject, isEventSub: boolean, headers: { [key: string]: string }, body: Buffer): void {
+        //During the grace period after a secret rotation, notifications signed with the previous secret are accepted too.
+        let secrets = isPreviousSecretValid(webhook) ? [webhook.secret, <string>webhook.previousSecret] : [webhook.secret];
+        if (isEventSub) {
+            if (!secrets.some(secret => verifyEventSubSignature(secret, headers[EVENTSUB_MESSAGE_ID_HEADER.toLowerCase()] || '',
+                headers[EVENTSUB_MESSAGE_TIMESTAMP_HEADER.toLowerCase()] || '', body, headers[EVENTSUB_MESSAGE_SIGNATURE_HEADER.toLowerCase()]))) {
+                throw new SignatureVerificationError('mismatch', webhook.id);
+            }
+        } else {
+            try {
+                verifyHubSignature(secrets[0], body, headers[HUB_SIGNATURE_HEADER.toLowerCase()], webhook.id);
+            } catch (e) {
+                if (e.reason !== 'mismatch' || secrets.length === 1) {
+                    throw e;
+                }
+                verifyHubSignature(secrets[1], body, headers[HUB_SIGNATURE_HEADER.toLowerCase()], webhook.id);
+            }
+        }
+
+        if (this.manager.config.notificationToleranceSeconds !== undefined) {
+            checkNotificationAge(headers[(isEventSub ? EVENTSUB_MESSAGE_TIMESTAMP_HEADER : NOTIFICATION_TIMESTAMP_HEADER).toLowerCase()],
+                this.manager.config.notificationToleranceSeconds, webhook.id);
+        }
+    }
+
+    private handleEventSubMessage(webhook: WebhookPersistenceObject, headers: { [key: string]: string }, message: EventSubMessage): WebhookResponse {
+        let config = this.manager.config;
+        switch (headers[EVENTSUB_MESSAGE_TYPE_HEADER.toLowerCase()]) {
+            case EventSubMessageType.Verification:
+                this.manager.metrics.verificationChallenges.inc({mode: 'eventsub'});
+                this.afterResponse(async () => {
+                    webhook.eventSubIds = webhook.eventSubIds || [];
+                    if (webhook.eventSubIds.indexOf(message.subscription.id) === -1) {
+                        webhook.eventSubIds.push(message.subscription.id);
+                    }
+
+                    if (webhook.subscribed) {
+                        //One of several EventSub subscriptions for this webhook; The webhook itself is already verified.
+                        await config.persistenceManager.saveWebhook(webhook);
+                        return;
+                    }
+
+                    webhook.subscribed = true;
+                    webhook.subscriptionStart = new Date();
+                    webhook.subscriptionEnd = new Date(webhook.subscriptionStart.getTime() + webhook.leaseSeconds * 1000);
+                    await config.persistenceManager.saveWebhook(webhook);
+                    config.logger.info(`EventSub subscription for ${webhook.id} verified!`);
+                    config.logger.debug('Subscribed to webhook: ', webhook);
+                    this.manager.emit("subscribed", webhook.id);
+                    this.scheduleRenewal(webhook);
+                });
+                return {status: 200, headers: {"Content-Type": "text/plain"}, body: message.challenge};
+            case EventSubMessageType.Revocation:
+                this.afterResponse(async () => {
+                    config.logger.error(`EventSub subscription for ${webhook.id} revoked. reason: ${message.subscription.status}`);
+                    if (config.renewalScheduler) {
+                        config.renewalScheduler.removeFromScheduler(webhook.id);
+                    }
+
+                    //Clean up any other EventSub subscriptions that were backing this webhook.
+                    webhook.eventSubIds = (webhook.eventSubIds || []).filter(id => id !== message.subscription.id);
+                    try {
+                        await deleteEventSubSubscriptions(webhook, this.manager, await config.getOAuthToken());
+                    } catch (e) {
+                        config.logger.error(`Failed to clean up EventSub subscriptions for ${webhook.id}`, e);
+                    }
+                    await config.persistenceManager.deleteWebhook(webhook.id);
+                    this.manager.emit('revoked', webhook.id, message.subscription.status);
+                });
+                return {status: 204, headers: {}};
+            case EventSubMessageType.Notification:
+                let notificationId = headers[EVENTSUB_MESSAGE_ID_HEADER.toLowerCase()];
+                this.afterResponse(async () => {
+                    if (await this.isDuplicateNotification(notificationId)) {
+                        return;
+                    }
+
+                    this.dispatch(webhook.id, {
+                        type: webhook.type,
+                        notificationId: notificationId,
+                        data: convertEventSubEvent(notificationId, headers[EVENTSUB_MESSAGE_TIMESTAMP_HEADER.toLowerCase()], message),
+                        subParams: getWebhookParamsFromId(webhook.type, webhook.id)
+                    });
+                });
+                return {status: 204, headers: {}};
+            default:
+                config.logger.error(`Got unknown EventSub message type: ${headers[EVENTSUB_MESSAGE_TYPE_HEADER.toLowerCase()]}`);
+                return {status: 400, headers: {}};
+        }
+    }
+
+    private scheduleRenewal(webhook: WebhookPersistenceObject) {
+        if (this.manager.config.renewalScheduler) {
+            this.manager.config.logger.info(`Adding webhook ${webhook.id} to renewal scheduler`);
+            this.manager.config.renewalScheduler.addToScheduler(webhook);
+        }
+    }
+
+    //Records the notification id; Resolves to true if it was already delivered within the de-duplication window.
+    private async isDuplicateNotification(notificationId: string | undefined): Promise<boolean> {
+        if (!notificationId || this.manager.config.deduplicationWindowSeconds <= 0) {
+            return false;
+        }
+
+        let expiresAt = new Date(Date.now() + this.manager.config.deduplicationWindowSeconds * 1000);
+        if (await this.manager.config.notificationIdStore.checkAndRecord(notificationId, expiresAt)) {
+            this.manager.config.logger.info(`Dropping duplicate delivery of notification ${notificationId}`);
+            return true;
+        }
+        return false;
+    }
+
+    // Twitch only needs to know the request was received; Persisting state and emitting events happens once the
+    // response has been handed back to the adapter, so slow listeners can't hold up the response.
+    private afterResponse(work: () => Promise<void>) {
+        setImmediate(() => {
+            work().catch((e) => this.manager.config.logger.error('Error while handling webhook request: ', e));
+        });
+    }
+
+    private emitSpecificEvent(webhookId: WebhookId, payload: WebhookPayload<any>): void {
+        switch (payload.type) {
+            case WebhookType.UserFollows:
+                this.manager.emit('userFollows', webhookId, payload);
+                break;
+            case WebhookType.StreamChanged:
+                this.manager.emit('streamChanged', webhookId, payload);
+                break;
+            case WebhookType.UserChanged:
+                this.manager.emit('userChanged', webhookId, payload);
+                break;
+            case WebhookType.ExtensionTransactionCreated:
+                this.manager.emit('extensionTransactionCreated', webhookId, payload);
+                break;
+            case WebhookType.ModeratorChange:
+                this.manager.emit('moderatorChangeEvent', webhookId, payload);
+                break;
+            case WebhookType.ChannelBanChange:
+                this.manager.emit('channelBanEvent', webhookId, payload);
+                break;
+            case WebhookType.Subscription:
+                this.manager.emit('subscriptionEvent', webhookId, payload);
+                break;
+            default:
+                break;
+        }
+    }
+}
+
+//Lower cases header names, and joins repeated headers.
+function normalizeHeaders(headers: { [key: string]: string | string[] | undefined }): { [key: string]: string } {
+    let normalized: { [key: string]: string } = {};
+    for (let name of Object.keys(headers)) {
+        let value = headers[name];
+        if (value !== undefined) {
+            normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+        }
+    }
+    return normalized;
+}
+
+export {
+    WebhookRequest,
+    WebhookResponse,
+    WebhookRequestHandler,
+    normalizeHeaders
+}
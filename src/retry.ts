@@ -0,0 +1,71 @@
+/*
+* Retry with exponential backoff for requests made to twitch (hub/EventSub subscribe, renew and unsubscribe calls).
+* */
+
+type RetryPolicy = {
+    maxAttempts: number, // Total number of attempts, including the first one. 1 means never retry.
+    baseDelay: number, // Milliseconds to wait before the first retry; Doubles with every following retry.
+    maxDelay: number, // Upper bound (in milliseconds) for the delay between two attempts.
+    jitter: number, // Fraction (0 to 1) of each delay that is randomized, so failed requests don't all retry together.
+    retryableStatusCodes: number[] // Status codes of TwitchRequestErrors that are retried. Network errors are always retried.
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    jitter: 0.2,
+    retryableStatusCodes: [429, 500, 502, 503, 504]
+};
+
+function isRetryableError(policy: RetryPolicy, e: any): boolean {
+    if (!e) {
+        return false;
+    }
+    if (typeof e.statusCode === 'number') {
+        return policy.retryableStatusCodes.indexOf(e.statusCode) !== -1;
+    }
+    // Network level errors (timeouts, refused connections, ...) have a code, but no status.
+    return typeof e.code === 'string';
+}
+
+//Gets the delay before the given retry (attempt is the number of attempts made so far).
+function getRetryDelay(policy: RetryPolicy, attempt: number, e: any): number {
+    let delay = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+    delay = delay * (1 - policy.jitter + Math.random() * policy.jitter * 2);
+    if (e && e.statusCode === 429 && e.limitReset instanceof Date) {
+        // No point in retrying before the rate limit bucket is refilled.
+        delay = Math.max(delay, e.limitReset.getTime() - Date.now());
+    }
+    return Math.max(0, delay);
+}
+
+//Runs the operation, retrying it according to the policy. Rejects with the last error once retries are exhausted,
+//or as soon as an error that isn't retryable is thrown.
+async function withRetry<T>(policy: RetryPolicy, operation: () => Promise<T>,
+                            onRetry?: (e: any, attempt: number, delay: number) => void): Promise<T> {
+    let attempt = 0;
+    while (true) {
+        attempt++;
+        try {
+            return await operation();
+        } catch (e) {
+            if (attempt >= policy.maxAttempts || !isRetryableError(policy, e)) {
+                throw e;
+            }
+            let delay = getRetryDelay(policy, attempt, e);
+            if (onRetry) {
+                onRetry(e, attempt, delay);
+            }
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+}
+
+export {
+    RetryPolicy,
+    DEFAULT_RETRY_POLICY,
+    isRetryableError,
+    getRetryDelay,
+    withRetry
+}
@@ -6,11 +6,14 @@
 * */
 
 import {WebhookId} from "./webhooks";
-import {WebhookPersistenceObject} from "./persistence";
+import {TwitchWebhookPersistenceManager, WebhookPersistenceObject} from "./persistence";
 import EventEmitter = NodeJS.EventEmitter;
+import {RateLimitHitTwitchRequestError} from "./errors";
+import * as crypto from "crypto";
+import {Logger} from "./config";
 
 type SchedulerMetaData = {
-    runInterval: number; // Number of seconds between each run call. Infinity means to never run it.
+    runInterval: number; // Number of milliseconds between each run call. Infinity means to never run it.
 }
 
 //Some notes on this: addToScheduler will be called ONCE PER RENEWAL; It should not be on an interval basis, but just once.
@@ -26,14 +29,24 @@ interface WebhookRenewalScheduler {
     run(): void; // Run the scheduler at a pre defined interval.
 
     destroy(): Promise<void>; //Stop all scheduling activities
+
+    getScheduledRenewal?(webhook: WebhookId): Date | undefined; // Optional; When the webhook will next be renewed, if it is scheduled. Used by the admin routes.
 }
 
 interface IResubscribeable extends EventEmitter {
+    readonly config?: { logger: Logger }; // Schedulers log through this logger, if it is present.
+
     resubscribePersistenceObject(webhook: WebhookPersistenceObject): Promise<void>;
 }
 
+function reportRenewalFailure(resubscribeable: IResubscribeable, webhookId: WebhookId, e: Error) {
+    resubscribeable.emit('renewalFailed', webhookId, e);
+    resubscribeable.emit('error', e, webhookId);
+}
+
 class BasicWebhookRenewalScheduler implements WebhookRenewalScheduler {
     webhookURLToTimeout: Map<string, NodeJS.Timeout> = new Map<string, NodeJS.Timeout>();
+    webhookURLToRenewalTime: Map<string, Date> = new Map<string, Date>();
     resubscribeable: IResubscribeable;
 
     setResubscribeableObject(resubscribeable: IResubscribeable) {
@@ -41,17 +54,21 @@ class BasicWebhookRenewalScheduler implements WebhookRenewalScheduler {
     }
 
     addToScheduler(webhook: WebhookPersistenceObject): void {
+        //Replaces the renewal if the webhook is already scheduled.
+        this.removeFromScheduler(webhook.id);
         let resubHandler = () => {
-            //TODO: Flesh out error stuff for this
+            // Retries (if any) happen in resubscribePersistenceObject; If it rejects, the renewal has failed for good.
             this.resubscribeable.resubscribePersistenceObject(webhook)
-                .catch((e) => this.resubscribeable.emit('error', e, webhook.id));
+                .catch((e) => reportRenewalFailure(this.resubscribeable, webhook.id, e));
             this.webhookURLToTimeout.delete(webhook.id);
+            this.webhookURLToRenewalTime.delete(webhook.id);
         };
 
         // Note about types here; If subscribed = true (that is, we are adding it to this scheduler),
         // then the subscription start and end MUST be defined.
         //TODO? Might want to find a way to enforce this through the type system.
         let timeToResub = (((<Date>webhook.subscriptionEnd).getTime() - (<Date>webhook.subscriptionStart).getTime()) - (Date.now() - (<Date>webhook.subscriptionStart).getTime())) * 0.85;
+        this.webhookURLToRenewalTime.set(webhook.id, new Date(Date.now() + Math.max(timeToResub, 0)));
         if (timeToResub <= 0) {
             setImmediate(resubHandler);
         } else {
@@ -71,6 +88,11 @@ class BasicWebhookRenewalScheduler implements WebhookRenewalScheduler {
             clearTimeout(<NodeJS.Timeout>this.webhookURLToTimeout.get(webhook));
         }
         this.webhookURLToTimeout.delete(webhook);
+        this.webhookURLToRenewalTime.delete(webhook);
+    }
+
+    getScheduledRenewal(webhook: WebhookId): Date | undefined {
+        return this.webhookURLToRenewalTime.get(webhook);
     }
 
     run(): void {
@@ -81,12 +103,299 @@ class BasicWebhookRenewalScheduler implements WebhookRenewalScheduler {
             clearTimeout(timeout);
         });
         this.webhookURLToTimeout.clear();
+        this.webhookURLToRenewalTime.clear();
+    }
+
+}
+
+type RateLimitAwareSchedulerOptions = {
+    runInterval?: number; // Milliseconds between each run. Defaults to 1000.
+    bucketSize?: number; // Points of the Helix rate limit bucket renewals may use. Defaults to 800 (the Helix default bucket).
+    refillInterval?: number; // Milliseconds for an empty bucket to refill completely. Defaults to 60000.
+    renewalWindow?: [number, number]; // Fractions of the lease between which a renewal is placed. Defaults to [0.75, 0.9].
+}
+
+type ScheduledRenewal = {
+    webhook: WebhookPersistenceObject,
+    renewAt: number, // Epoch ms at which the renewal may happen
+    deadline: number // Epoch ms at which the subscription expires
+}
+
+// Scheduler that keeps renewals within the Helix rate limit.
+// Each renewal is placed at a random point in the renewal window, so webhooks subscribed together don't all
+// come due together. Every run() renews due webhooks (soonest expiry first) while the token bucket has points left.
+// If twitch answers with a 429 anyway, all renewals are deferred until the bucket is reset.
+class RateLimitAwareWebhookRenewalScheduler implements WebhookRenewalScheduler {
+    resubscribeable: IResubscribeable;
+    scheduled: Map<WebhookId, ScheduledRenewal> = new Map<WebhookId, ScheduledRenewal>();
+    private readonly runInterval: number;
+    private bucketSize: number;
+    private readonly refillInterval: number;
+    private readonly renewalWindow: [number, number];
+    private tokens: number;
+    private lastRefill: number = Date.now();
+    private deferredUntil: number = 0;
+
+    constructor(options: RateLimitAwareSchedulerOptions = {}) {
+        this.runInterval = options.runInterval || 1000;
+        this.bucketSize = options.bucketSize || 800;
+        this.refillInterval = options.refillInterval || 60000;
+        this.renewalWindow = options.renewalWindow || [0.75, 0.9];
+        this.tokens = this.bucketSize;
+    }
+
+    setResubscribeableObject(resubscribeable: IResubscribeable) {
+        this.resubscribeable = resubscribeable;
+    }
+
+    addToScheduler(webhook: WebhookPersistenceObject): void {
+        // Same as the basic scheduler; subscribed webhooks always have a start and end.
+        let start = (<Date>webhook.subscriptionStart).getTime();
+        let deadline = (<Date>webhook.subscriptionEnd).getTime();
+        let windowFraction = this.renewalWindow[0] + Math.random() * (this.renewalWindow[1] - this.renewalWindow[0]);
+        this.scheduled.set(webhook.id, {
+            webhook: webhook,
+            renewAt: Math.max(Date.now(), start + (deadline - start) * windowFraction),
+            deadline: deadline
+        });
+    }
+
+    getMetaData(): SchedulerMetaData {
+        return {
+            runInterval: this.runInterval
+        };
+    }
+
+    removeFromScheduler(webhook: WebhookId): void {
+        this.scheduled.delete(webhook);
+    }
+
+    getScheduledRenewal(webhook: WebhookId): Date | undefined {
+        let renewal = this.scheduled.get(webhook);
+        return renewal ? new Date(renewal.renewAt) : undefined;
+    }
+
+    run(): void {
+        let now = Date.now();
+        this.refill(now);
+        if (now < this.deferredUntil) {
+            return;
+        }
+
+        let due = Array.from(this.scheduled.values())
+            .filter(renewal => renewal.renewAt <= now)
+            .sort((a, b) => a.deadline - b.deadline);
+
+        for (let renewal of due) {
+            if (this.tokens < 1) {
+                break;
+            }
+            this.tokens--;
+            this.scheduled.delete(renewal.webhook.id);
+            this.resubscribeable.resubscribePersistenceObject(renewal.webhook)
+                .catch((e) => this.handleRenewalError(renewal, e));
+        }
+    }
+
+    async destroy(): Promise<void> {
+        this.scheduled.clear();
+    }
+
+    private refill(now: number) {
+        this.tokens = Math.min(this.bucketSize, this.tokens + (now - this.lastRefill) * this.bucketSize / this.refillInterval);
+        this.lastRefill = now;
+    }
+
+    private handleRenewalError(renewal: ScheduledRenewal, e: any) {
+        if (e && e.statusCode === 429) {
+            let rateLimitError = <RateLimitHitTwitchRequestError>e;
+            this.deferredUntil = Math.max(this.deferredUntil, rateLimitError.limitReset.getTime());
+            if (rateLimitError.refillRate > 0) {
+                this.bucketSize = rateLimitError.refillRate;
+            }
+            this.tokens = 0;
+            // Retry once the bucket has been reset, unless the renewal was removed/rescheduled in the meantime.
+            if (!this.scheduled.has(renewal.webhook.id)) {
+                renewal.renewAt = this.deferredUntil;
+                this.scheduled.set(renewal.webhook.id, renewal);
+            }
+        } else {
+            reportRenewalFailure(this.resubscribeable, renewal.webhook.id, e);
+        }
     }
+}
+
+type CoordinatedSchedulerOptions = {
+    instanceId?: string; // Unique id of this instance. Defaults to a random id.
+    leaseTtl?: number; // Milliseconds a renewal lease is held without a heartbeat. Defaults to 30000.
+    heartbeatInterval?: number; // Milliseconds between heartbeats. Defaults to a third of leaseTtl.
+}
+
+// Wraps another scheduler for deployments where several instances share one persistence backend.
+// Every instance tracks every webhook, but a webhook is only handed to the wrapped scheduler by the instance holding
+// its lease. Leases are extended on every heartbeat; If an instance stops heartbeating, its leases expire and other
+// instances take over its renewals on their next heartbeat.
+class CoordinatedWebhookRenewalScheduler implements WebhookRenewalScheduler {
+    readonly instanceId: string;
+    readonly scheduler: WebhookRenewalScheduler;
+    tracked: Map<WebhookId, WebhookPersistenceObject> = new Map<WebhookId, WebhookPersistenceObject>();
+    owned: Set<WebhookId> = new Set<WebhookId>();
+    private readonly persistenceManager: TwitchWebhookPersistenceManager;
+    private readonly leaseTtl: number;
+    private readonly heartbeatInterval: number;
+    private heartbeatTimer: NodeJS.Timeout | undefined;
+    private heartbeat: Promise<void> | undefined;
+    private resubscribeable: IResubscribeable | undefined;
+
+    constructor(scheduler: WebhookRenewalScheduler, persistenceManager: TwitchWebhookPersistenceManager, options: CoordinatedSchedulerOptions = {}) {
+        if (!persistenceManager.acquireLease || !persistenceManager.releaseLease) {
+            throw new Error('The persistence manager does not support leases (acquireLease/releaseLease)!');
+        }
+        this.scheduler = scheduler;
+        this.persistenceManager = persistenceManager;
+        this.instanceId = options.instanceId || crypto.randomBytes(8).toString('hex');
+        this.leaseTtl = options.leaseTtl || 30000;
+        this.heartbeatInterval = options.heartbeatInterval || this.leaseTtl / 3;
+    }
+
+    setResubscribeableObject(resubscribeable: IResubscribeable): void {
+        this.resubscribeable = resubscribeable;
+        this.scheduler.setResubscribeableObject(resubscribeable);
+    }
+
+    addToScheduler(webhook: WebhookPersistenceObject): void {
+        this.tracked.set(webhook.id, webhook);
+        if (this.owned.has(webhook.id)) {
+            // Renewed by this instance; Reschedule right away, the lease is extended on the next heartbeat.
+            this.scheduler.addToScheduler(webhook);
+        } else {
+            this.runHeartbeat();
+        }
+
+        if (!this.heartbeatTimer) {
+            this.heartbeatTimer = setInterval(() => this.runHeartbeat(), this.heartbeatInterval);
+        }
+    }
+
+    removeFromScheduler(webhook: WebhookId): void {
+        this.tracked.delete(webhook);
+        this.scheduler.removeFromScheduler(webhook);
+        if (this.owned.delete(webhook)) {
+            this.release(webhook);
+        }
+    }
+
+    getMetaData(): SchedulerMetaData {
+        return this.scheduler.getMetaData();
+    }
+
+    // Only webhooks owned by this instance are scheduled here; Others are renewed by another instance.
+    getScheduledRenewal(webhook: WebhookId): Date | undefined {
+        return this.scheduler.getScheduledRenewal ? this.scheduler.getScheduledRenewal(webhook) : undefined;
+    }
+
+    run(): void {
+        this.scheduler.run();
+    }
+
+    // Releases every lease held by this instance, so other instances can take over right away.
+    async destroy(): Promise<void> {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = undefined;
+        }
+        await this.heartbeat;
+        await Promise.all(Array.from(this.owned).map(webhookId => this.release(webhookId)));
+        this.owned.clear();
+        this.tracked.clear();
+        await this.scheduler.destroy();
+    }
+
+    private runHeartbeat(): Promise<void> {
+        if (!this.heartbeat) {
+            this.heartbeat = this.doHeartbeat()
+                .catch((e) => this.logError('Error during renewal lease heartbeat: ', e))
+                .then(() => {
+                    this.heartbeat = undefined;
+                });
+        }
+        return this.heartbeat;
+    }
+
+    private async doHeartbeat(): Promise<void> {
+        for (let webhookId of Array.from(this.tracked.keys())) {
+            let acquired: boolean;
+            try {
+                acquired = await (<Required<TwitchWebhookPersistenceManager>>this.persistenceManager).acquireLease(getLeaseKey(webhookId), this.instanceId, this.leaseTtl);
+            } catch (e) {
+                // Can't tell whether the lease is still ours; Step down rather than risk renewing twice.
+                acquired = false;
+            }
+
+            if (!this.tracked.has(webhookId)) {
+                // Removed while the lease was being acquired.
+                if (acquired) {
+                    this.release(webhookId);
+                }
+            } else if (acquired && !this.owned.has(webhookId)) {
+                // Another instance may have renewed the webhook since it was tracked; Use the persisted state.
+                let webhook = await this.persistenceManager.getWebhookById(webhookId);
+                if (!webhook || !webhook.subscribed) {
+                    this.tracked.delete(webhookId);
+                    this.release(webhookId);
+                    continue;
+                }
+                this.tracked.set(webhookId, webhook);
+                this.owned.add(webhookId);
+                this.scheduler.addToScheduler(webhook);
+            } else if (acquired && !this.hasPendingRenewal(webhookId)) {
+                // The verification of a renewal may have reached another instance, which only tracks the webhook;
+                // Pick up the renewed subscription from the persisted state.
+                let webhook = await this.persistenceManager.getWebhookById(webhookId);
+                let tracked = this.tracked.get(webhookId);
+                if (webhook && webhook.subscribed && tracked && this.owned.has(webhookId) &&
+                    getSubscriptionEnd(webhook) > getSubscriptionEnd(tracked)) {
+                    this.tracked.set(webhookId, webhook);
+                    this.scheduler.addToScheduler(webhook);
+                }
+            } else if (!acquired && this.owned.has(webhookId)) {
+                this.owned.delete(webhookId);
+                this.scheduler.removeFromScheduler(webhookId);
+            }
+        }
+    }
+
+    // Schedulers without getScheduledRenewal are assumed to have nothing pending.
+    private hasPendingRenewal(webhookId: WebhookId): boolean {
+        return this.scheduler.getScheduledRenewal !== undefined && this.scheduler.getScheduledRenewal(webhookId) !== undefined;
+    }
+
+    private release(webhookId: WebhookId): Promise<void> {
+        return (<Required<TwitchWebhookPersistenceManager>>this.persistenceManager).releaseLease(getLeaseKey(webhookId), this.instanceId)
+            .catch((e) => this.logError(`Error while releasing renewal lease for ${webhookId}: `, e));
+    }
+
+    private logError(message: string, e: any): void {
+        if (this.resubscribeable && this.resubscribeable.config) {
+            this.resubscribeable.config.logger.error(message, e);
+        }
+    }
+}
+
+function getLeaseKey(webhookId: WebhookId): string {
+    return `renewal:${webhookId}`;
+}
 
+function getSubscriptionEnd(webhook: WebhookPersistenceObject): number {
+    return webhook.subscriptionEnd ? webhook.subscriptionEnd.getTime() : 0;
 }
 
 export {
     WebhookRenewalScheduler,
     BasicWebhookRenewalScheduler,
+    RateLimitAwareWebhookRenewalScheduler,
+    RateLimitAwareSchedulerOptions,
+    CoordinatedWebhookRenewalScheduler,
+    CoordinatedSchedulerOptions,
     IResubscribeable
 }
\ No newline at end of file
@@ -0,0 +1,119 @@
+/*
+* Secret rotation.
+* Every webhook's secret is derived from a base secret (the manager's, or the one given in its WebhookOptions) and its
+* topic. rotateSecret derives a new secret for each webhook and resubscribes with it. Until the grace period ends, the
+* previous secret is kept alongside the new one, so notifications signed before twitch switched over still verify.
+* */
+
+import * as crypto from "crypto";
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookTransport} from "./config";
+import {deriveWebhookSecret, WebhookPersistenceObject} from "./persistence";
+import {deleteEventSubSubscriptions} from "./eventsub";
+
+type SecretRotationOptions = {
+    secret?: string, // New base secret. Defaults to a new cryptographically secure random string.
+    webhookIds?: WebhookId[], // Only rotate the secrets of these webhooks; The manager's secret is left unchanged. Defaults to all webhooks.
+    gracePeriodSeconds?: number // How long the previous secrets are still accepted. Defaults to the config's secretGracePeriodSeconds.
+}
+
+type SecretRotationProgress = {
+    webhookId: WebhookId,
+    completed: number, // Webhooks handled so far (rotated or failed), including this one
+    total: number
+}
+
+type SecretRotationResult = {
+    rotated: WebhookId[],
+    failed: { webhookId: WebhookId, error: Error }[]
+}
+
+//Whether the previous secret of the webhook is still accepted.
+function isPreviousSecretValid(webhook: WebhookPersistenceObject): boolean {
+    return webhook.previousSecret !== undefined && webhook.previousSecretExpiresAt !== undefined &&
+        webhook.previousSecretExpiresAt.getTime() > Date.now();
+}
+
+//Resubscribes to every webhook (or options.webhookIds) with a secret derived from the new base secret.
+//A webhook whose resubscription fails keeps its old secret; It is reported through 'secretRotationFailed'. If every
+//webhook fails, the manager keeps its old secret too.
+async function rotateSecret(manager: TwitchWebhookManager, options: SecretRotationOptions = {}): Promise<SecretRotationResult> {
+    let secret = options.secret || crypto.randomBytes(90).toString("hex");
+    let gracePeriodSeconds = options.gracePeriodSeconds !== undefined ? options.gracePeriodSeconds : manager.config.secretGracePeriodSeconds;
+    let persistenceManager = manager.config.persistenceManager;
+    let previousManagerSecret = manager.config.secret;
+
+    let webhooks = await persistenceManager.getAllWebhooks();
+    if (options.webhookIds) {
+        let webhookIds = options.webhookIds;
+        let missing = webhookIds.filter(id => !webhooks.some(x => x.id === id));
+        if (missing.length > 0) {
+            throw new Error(`Webhooks with ids ${missing.join(', ')} could not be found!`);
+        }
+        webhooks = webhooks.filter(x => webhookIds.indexOf(x.id) !== -1);
+    } else {
+        //New webhooks use the new secret right away.
+        manager.config.secret = secret;
+    }
+
+    manager.config.logger.info(`Rotating the secrets of ${webhooks.length} webhooks (grace period: ${gracePeriodSeconds}s)`);
+    let result: SecretRotationResult = {rotated: [], failed: []};
+    for (let webhook of webhooks) {
+        let previous = {
+            secret: webhook.secret,
+            previousSecret: webhook.previousSecret,
+            previousSecretExpiresAt: webhook.previousSecretExpiresAt,
+            eventSubIds: webhook.eventSubIds
+        };
+        let deletedEventSubs = false;
+        try {
+            webhook.previousSecret = webhook.secret;
+            webhook.previousSecretExpiresAt = new Date(Date.now() + gracePeriodSeconds * 1000);
+            webhook.secret = deriveWebhookSecret(secret, webhook.href);
+            if (webhook.transport === WebhookTransport.EventSub) {
+                //Existing EventSub subscriptions keep their secret; They are replaced by subscriptions with the new one.
+                //Twitch refuses duplicate subscriptions, so the old ones have to be deleted first.
+                await deleteEventSubSubscriptions(webhook, manager, await manager.config.getOAuthToken());
+                webhook.eventSubIds = previous.eventSubIds = [];
+                deletedEventSubs = true;
+            }
+            await persistenceManager.saveWebhook(webhook);
+            await manager.resubscribe(webhook.id);
+            result.rotated.push(webhook.id);
+        } catch (e) {
+            manager.config.logger.error(`Failed to rotate the secret of ${webhook.id}: `, e);
+            Object.assign(webhook, previous);
+            try {
+                await persistenceManager.saveWebhook(webhook);
+                if (deletedEventSubs) {
+                    //Recreate the deleted subscriptions with the restored secret.
+                    await manager.resubscribe(webhook.id);
+                }
+            } catch (restoreError) {
+                manager.config.logger.error(`Failed to restore the secret of ${webhook.id}: `, restoreError);
+            }
+            result.failed.push({webhookId: webhook.id, error: e});
+            manager.emit('secretRotationFailed', webhook.id, e);
+        }
+        manager.emit('secretRotationProgress', {
+            webhookId: webhook.id,
+            completed: result.rotated.length + result.failed.length,
+            total: webhooks.length
+        });
+    }
+
+    if (!options.webhookIds && result.rotated.length === 0 && result.failed.length > 0) {
+        //No subscription uses the new secret; New webhooks keep using the old one.
+        manager.config.secret = previousManagerSecret;
+    }
+    manager.config.logger.info(`Rotated the secrets of ${result.rotated.length}/${webhooks.length} webhooks`);
+    return result;
+}
+
+export {
+    SecretRotationOptions,
+    SecretRotationProgress,
+    SecretRotationResult,
+    isPreviousSecretValid,
+    rotateSecret
+}
@@ -0,0 +1,184 @@
+/*
+* Stream lifecycle events, derived from StreamChanged notifications.
+* Twitch only reports a stream's current state (or undefined once it went offline). The last known state per user is
+* kept in a StreamStateStore, and compared with every StreamChanged payload to emit 'streamOnline', 'streamOffline',
+* 'streamTitleChanged' and 'streamGameChanged'. With a persistent store, the state survives restarts.
+* */
+
+import * as fs from "fs";
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookType} from "./config";
+import {WebhookPayload} from "./payload_types";
+import {CachedJsonFile} from "./persistence";
+
+type StreamState = {
+    userId: string,
+    online: boolean,
+    streamId?: string, // Id of the last known stream
+    title?: string,
+    gameId?: string,
+    startedAt?: Date,
+    updatedAt: Date // When the state was last changed by a notification
+}
+
+// Previous and current values of a stream lifecycle event.
+type StreamStateChange<T> = {
+    userId: string,
+    previous: T,
+    current: T
+}
+
+interface StreamStateStore {
+    get(userId: string): Promise<StreamState | undefined>;
+
+    set(state: StreamState): Promise<void>;
+
+    destroy(): Promise<void>;
+}
+
+// Default store; The state is lost when the process exits.
+class MemoryStreamStateStore implements StreamStateStore {
+    states: Map<string, StreamState> = new Map<string, StreamState>();
+
+    async get(userId: string): Promise<StreamState | undefined> {
+        let state = this.states.get(userId);
+        return state ? Object.assign({}, state) : undefined;
+    }
+
+    async set(state: StreamState): Promise<void> {
+        this.states.set(state.userId, Object.assign({}, state));
+    }
+
+    async destroy(): Promise<void> {
+    }
+}
+
+// Keeps the state of every stream in a JSON file.
+class FileStreamStateStore implements StreamStateStore {
+    readonly filePath: string;
+    private file: CachedJsonFile<Map<string, StreamState>>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.file = new CachedJsonFile(filePath, readStreamStateFile);
+    }
+
+    async get(userId: string): Promise<StreamState | undefined> {
+        let state = (await this.file.load()).get(userId);
+        return state ? Object.assign({}, state) : undefined;
+    }
+
+    async set(state: StreamState): Promise<void> {
+        let states = await this.file.load();
+        states.set(state.userId, Object.assign({}, state));
+        return this.file.write(JSON.stringify({streams: Array.from(states.values())}, null, 2));
+    }
+
+    async destroy(): Promise<void> {
+        return this.file.close();
+    }
+}
+
+async function readStreamStateFile(filePath: string): Promise<Map<string, StreamState>> {
+    let states = new Map<string, StreamState>();
+    let contents: string;
+    try {
+        contents = await fs.promises.readFile(filePath, 'utf8');
+    } catch (e) {
+        if (e.code === 'ENOENT') {
+            return states;
+        }
+        throw e;
+    }
+
+    let parsed: { streams: StreamState[] } = JSON.parse(contents, (key, value) => {
+        if ((key === 'startedAt' || key === 'updatedAt') && typeof value === 'string') {
+            return new Date(value);
+        }
+        return value;
+    });
+    for (let state of parsed.streams) {
+        states.set(state.userId, state);
+    }
+    return states;
+}
+
+class StreamLifecycleTracker {
+    readonly manager: TwitchWebhookManager;
+    // Notifications for the same user are handled one after the other, so each is compared with the state before it.
+    private queues: Map<string, Promise<void>> = new Map<string, Promise<void>>();
+
+    constructor(manager: TwitchWebhookManager) {
+        this.manager = manager;
+    }
+
+    // Compares the payload with the last known state of the stream, and emits the lifecycle events.
+    // Resolves once the events have been emitted and the new state has been stored.
+    handle(webhookId: WebhookId, payload: WebhookPayload<WebhookType.StreamChanged>): Promise<void> {
+        //Replayed payloads are old; They must not overwrite the current state.
+        if (payload.type !== WebhookType.StreamChanged || payload.replayed) {
+            return Promise.resolve();
+        }
+
+        let userId = payload.data ? payload.data.user_id : payload.subParams.user_id;
+        let handled = (this.queues.get(userId) || Promise.resolve())
+            .then(() => this.update(webhookId, userId, payload))
+            .catch((e) => {
+                this.manager.config.logger.error(`Failed to update the stream state of ${userId}: `, e);
+            });
+        this.queues.set(userId, handled);
+        return handled.then(() => {
+            if (this.queues.get(userId) === handled) {
+                this.queues.delete(userId);
+            }
+        });
+    }
+
+    private async update(webhookId: WebhookId, userId: string, payload: WebhookPayload<WebhookType.StreamChanged>): Promise<void> {
+        let store = this.manager.config.streamStateStore;
+        let previous = await store.get(userId);
+        let stream = payload.data;
+
+        if (!stream) {
+            if (!previous || !previous.online) {
+                return;
+            }
+            let current: StreamState = Object.assign({}, previous, {online: false, updatedAt: new Date()});
+            await store.set(current);
+            this.manager.emit('streamOffline', webhookId, {userId: userId, previous: previous, current: current});
+            return;
+        }
+
+        let current: StreamState = {
+            userId: userId,
+            online: true,
+            streamId: stream.id,
+            //EventSub's stream.online doesn't carry the title and game; The last known ones are kept.
+            title: stream.title !== undefined ? stream.title : previous && previous.title,
+            gameId: stream.game_id !== undefined ? stream.game_id : previous && previous.gameId,
+            startedAt: stream.started_at,
+            updatedAt: new Date()
+        };
+        await store.set(current);
+
+        if (!previous || !previous.online) {
+            this.manager.emit('streamOnline', webhookId, {userId: userId, previous: previous, current: current});
+            return;
+        }
+        if (current.title !== previous.title) {
+            this.manager.emit('streamTitleChanged', webhookId, {userId: userId, previous: previous.title, current: current.title});
+        }
+        if (current.gameId !== previous.gameId) {
+            this.manager.emit('streamGameChanged', webhookId, {userId: userId, previous: previous.gameId, current: current.gameId});
+        }
+    }
+}
+
+export {
+    StreamState,
+    StreamStateChange,
+    StreamStateStore,
+    MemoryStreamStateStore,
+    FileStreamStateStore,
+    StreamLifecycleTracker
+}
@@ -0,0 +1,173 @@
+/*
+* Pull-based consumption of notifications.
+* Events are pushed to listeners as they arrive, without any backpressure. A MessageStream buffers matching payloads
+* (up to bufferSize) until they are pulled, either with for await...of or as an object-mode Readable.
+* */
+
+import {Readable} from "stream";
+import {TwitchWebhookManager, WebhookId} from "./webhooks";
+import {WebhookType} from "./config";
+import {WebhookPayload} from "./payload_types";
+import {MessageBufferOverflowError} from "./errors";
+
+// What happens to a payload that arrives while the buffer is full:
+// 'drop-oldest' discards the oldest buffered payload, 'drop-newest' discards the arriving payload,
+// and 'error' ends the stream with a MessageBufferOverflowError once the buffered payloads have been consumed.
+type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+
+type MessageStreamOptions<T extends WebhookType> = {
+    types?: T[], // Only payloads of these webhook types. Defaults to all types.
+    webhookIds?: WebhookId[], // Only payloads of these webhooks. Defaults to all webhooks.
+    bufferSize?: number, // Maximum number of payloads buffered until they are consumed. Defaults to 1000.
+    overflow?: OverflowPolicy // Defaults to 'error'.
+}
+
+type PendingRead<T extends WebhookType> = {
+    resolve: (result: IteratorResult<WebhookPayload<T>>) => void,
+    reject: (e: Error) => void
+}
+
+class MessageStream<T extends WebhookType> implements AsyncIterableIterator<WebhookPayload<T>> {
+    readonly manager: TwitchWebhookManager;
+    readonly options: MessageStreamOptions<T>;
+    dropped: number = 0; // Payloads discarded by the overflow policy
+    private buffer: WebhookPayload<T>[] = [];
+    private pendingReads: PendingRead<T>[] = [];
+    private error: Error | undefined;
+    private closed: boolean = false;
+    private readonly listener: (webhookId: WebhookId, payload: WebhookPayload<any>) => void;
+    private readonly onClose: (stream: MessageStream<T>) => void;
+
+    constructor(manager: TwitchWebhookManager, options: MessageStreamOptions<T> = {}, onClose: (stream: MessageStream<T>) => void = () => undefined) {
+        this.manager = manager;
+        this.options = options;
+        this.onClose = onClose;
+        this.listener = (webhookId, payload) => {
+            if ((!options.types || options.types.indexOf(payload.type) !== -1) &&
+                (!options.webhookIds || options.webhookIds.indexOf(webhookId) !== -1)) {
+                this.push(payload);
+            }
+        };
+        manager.on('message', this.listener);
+    }
+
+    get bufferSize(): number {
+        return this.options.bufferSize !== undefined ? this.options.bufferSize : 1000;
+    }
+
+    // Number of payloads waiting to be consumed.
+    get buffered(): number {
+        return this.buffer.length;
+    }
+
+    next(): Promise<IteratorResult<WebhookPayload<T>>> {
+        if (this.buffer.length > 0) {
+            return Promise.resolve({done: false, value: <WebhookPayload<T>>this.buffer.shift()});
+        }
+        if (this.error) {
+            let error = this.error;
+            this.error = undefined;
+            this.close();
+            return Promise.reject(error);
+        }
+        if (this.closed) {
+            return Promise.resolve(doneResult<T>());
+        }
+        return new Promise((resolve, reject) => this.pendingReads.push({resolve: resolve, reject: reject}));
+    }
+
+    // Called when a for await...of loop exits early; Stops listening, and discards buffered payloads.
+    return(): Promise<IteratorResult<WebhookPayload<T>>> {
+        this.buffer = [];
+        this.error = undefined;
+        this.close();
+        return Promise.resolve(doneResult<T>());
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<WebhookPayload<T>> {
+        return this;
+    }
+
+    // Stops listening for payloads; Buffered payloads can still be consumed, after which the stream ends.
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.manager.removeListener('message', this.listener);
+        for (let read of this.pendingReads.splice(0)) {
+            read.resolve(doneResult<T>());
+        }
+        this.onClose(this);
+    }
+
+    // Wraps the stream in an object-mode Readable; Destroying the Readable closes the stream.
+    toReadable(): Readable {
+        let reading = false;
+        let readable: Readable = new Readable({
+            objectMode: true,
+            //Payloads are buffered (and the overflow policy applied) by the stream itself.
+            highWaterMark: 1,
+            read: () => {
+                if (reading) {
+                    return;
+                }
+                reading = true;
+                this.next().then((result) => {
+                    reading = false;
+                    readable.push(result.done ? null : result.value);
+                }, (e) => {
+                    reading = false;
+                    readable.destroy(e);
+                });
+            },
+            destroy: (e, callback) => {
+                this.return().then(() => callback(e), callback);
+            }
+        });
+        return readable;
+    }
+
+    private push(payload: WebhookPayload<T>): void {
+        if (this.closed || this.error) {
+            return;
+        }
+
+        let read = this.pendingReads.shift();
+        if (read) {
+            read.resolve({done: false, value: payload});
+            return;
+        }
+
+        if (this.buffer.length < this.bufferSize) {
+            this.buffer.push(payload);
+            return;
+        }
+
+        switch (this.options.overflow || 'error') {
+            case 'drop-oldest':
+                this.buffer.shift();
+                this.buffer.push(payload);
+                this.dropped++;
+                break;
+            case 'drop-newest':
+                this.dropped++;
+                break;
+            case 'error':
+                this.manager.config.logger.error(`Message stream buffer overflowed (buffer size: ${this.bufferSize})`);
+                this.error = new MessageBufferOverflowError(this.bufferSize);
+                this.manager.removeListener('message', this.listener);
+                break;
+        }
+    }
+}
+
+function doneResult<T extends WebhookType>(): IteratorResult<WebhookPayload<T>> {
+    return {done: true, value: undefined};
+}
+
+export {
+    OverflowPolicy,
+    MessageStreamOptions,
+    MessageStream
+}
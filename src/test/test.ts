@@ -1,30 +1,59 @@
 import {TwitchWebhookManager, WebhookId} from "../webhooks";
-import {WebhookType as ThisProjectWebhookType} from '../config';
+import {WebhookType} from '../config';
 import * as express from 'express';
-import {
-    clearDb,
-    closeMockServer,
-    emitEvent,
-    setUpMockWebhookServer,
-    WebhookEvent,
-    WebhookType
-} from "twitch-mock-webhook-hub";
+import {FakeHubSubscription, FakeTwitchHub} from "../fake_hub";
 import * as http from 'http';
 import * as assert from 'assert';
 import {
+    createWebhookPersistenceObject,
+    FileBasedTwitchWebhookPersistenceManager,
     MemoryBasedTwitchWebhookPersistenceManager,
     TwitchWebhookPersistenceManager,
+    WEBHOOK_SCHEMA_VERSION,
     WebhookPersistenceObject
 } from "../persistence";
-import {BasicWebhookRenewalScheduler, IResubscribeable} from "../scheduling";
+import {
+    BasicWebhookRenewalScheduler,
+    CoordinatedWebhookRenewalScheduler,
+    IResubscribeable,
+    RateLimitAwareWebhookRenewalScheduler,
+    WebhookRenewalScheduler
+} from "../scheduling";
+import {RateLimitHitTwitchRequestError, TwitchRequestError} from "../errors";
+import {withRetry} from "../retry";
+import {MemoryLRUNotificationIdStore} from "../deduplication";
+import {checkNotificationAge, verifyHubSignature} from "../verification";
+import {fastifyAdapter, FastifyReply, FastifyRequest, koaAdapter, nodeHttpAdapter} from "../adapters";
 import {EventEmitter} from "events";
 import deepEqual = require("deep-equal");
+import concat = require("concat-stream");
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {Readable} from "stream";
+import got from "got";
+import {convertEventSubEvent, verifyEventSubSignature} from "../eventsub";
+import {WebhookTransport} from "../config";
+import {CliOutput, parseDuration, runCommand} from "../cli";
+import {Counter, Histogram, MetricsRegistry} from "../metrics";
+import {JsonlNotificationJournalStore} from "../journal";
+import {WebhookPayload} from "../payload_types";
+import {OverflowPolicy} from "../streams";
+import {DeadLetter, MemoryDeadLetterStore} from "../handlers";
+import {PayloadValidationMode, validatePayloadData} from "../validation";
+import {FileStreamStateStore} from "../stream_state";
+import {MemoryRefreshTokenStore, TwitchOAuthTokenProvider} from "../tokens";
+import {SecretRotationProgress} from "../secrets";
+import {EncryptedTwitchWebhookPersistenceManager, SecretEncryptionKey} from "../encryption";
+import {MigratingTwitchWebhookPersistenceManager, WebhookMigrationRegistry} from "../migrations";
 
 
 const webhookSubscriberPort = 3080;
 const webhookSubscriberUrl = `http://localhost:${webhookSubscriberPort}`;
 const webhookHubPort = 3090;
 const webhookHubUrl = `http://localhost:${webhookHubPort}/hub`;
+const webhookSubscriptionsUrl = `http://localhost:${webhookHubPort}/webhooks/subscriptions`;
 
 describe('Twitch Webhooks', function () {
     describe('In-memory Persistence Manager', function () {
@@ -152,6 +181,218 @@ describe('Twitch Webhooks', function () {
         });
     });
 
+    describe('File-based Persistence Manager', function () {
+        let filePath: string;
+
+        beforeEach(function () {
+            filePath = path.join(os.tmpdir(), `twitch-webhooks-${process.pid}-${Date.now()}.json`);
+        });
+
+        afterEach(function () {
+            for (let file of [filePath, `${filePath}.tmp`]) {
+                if (fs.existsSync(file)) {
+                    fs.unlinkSync(file);
+                }
+            }
+        });
+
+        it('Reads the file again after a failed read', async function () {
+            let persistenceManager = new FileBasedTwitchWebhookPersistenceManager(filePath);
+            //Reading a directory fails with EISDIR.
+            fs.mkdirSync(filePath);
+            try {
+                await assert.rejects(persistenceManager.getAllWebhooks(), (e: any) => e.code === 'EISDIR');
+            } finally {
+                fs.rmdirSync(filePath);
+            }
+            assert.deepStrictEqual(await persistenceManager.getAllWebhooks(), []);
+            await persistenceManager.destroy();
+        });
+
+        it('Reloads persisted webhooks with real dates', async function () {
+            let persistenceObject: WebhookPersistenceObject = {
+                href: "http://localhost/webhook",
+                id: "webhookid",
+                leaseSeconds: 2,
+                secret: "secret",
+                subscribed: true,
+                subscriptionEnd: new Date(Date.now() + 2000),
+                subscriptionStart: new Date(),
+                type: WebhookType.UserFollows
+            };
+
+            let persistenceManager = new FileBasedTwitchWebhookPersistenceManager(filePath);
+            await persistenceManager.persistWebhook(persistenceObject);
+            await persistenceManager.destroy();
+
+            let reloadedManager = new FileBasedTwitchWebhookPersistenceManager(filePath);
+            assert.deepStrictEqual(await reloadedManager.getWebhookById(persistenceObject.id), persistenceObject);
+            await reloadedManager.deleteWebhook(persistenceObject.id);
+            assert.deepStrictEqual(await new FileBasedTwitchWebhookPersistenceManager(filePath).getAllWebhooks(), []);
+        });
+
+        it('Ignores a temp file left behind by a crash during a write', async function () {
+            let persistenceManager = new FileBasedTwitchWebhookPersistenceManager(filePath);
+            await persistenceManager.saveWebhook({
+                href: "http://localhost/webhook",
+                id: "webhookid",
+                leaseSeconds: 2,
+                secret: "secret",
+                subscribed: false,
+                type: WebhookType.UserFollows
+            });
+            fs.writeFileSync(`${filePath}.tmp`, '{"webhooks": [{"id": "half-writ');
+
+            let reloadedManager = new FileBasedTwitchWebhookPersistenceManager(filePath);
+            assert.deepStrictEqual((await reloadedManager.getAllWebhooks()).map(x => x.id), ['webhookid']);
+        });
+    });
+
+    describe('Encrypted Persistence Manager', function () {
+        let keys: { [id: string]: SecretEncryptionKey } = {};
+        let currentKeyId = 'key1';
+        let keyProvider = async (keyId?: string) => keys[keyId !== undefined ? keyId : currentKeyId];
+        let webhook = (): WebhookPersistenceObject => ({
+            href: "http://localhost/webhook",
+            id: "webhookid",
+            leaseSeconds: 2,
+            secret: "secret",
+            subscribed: false,
+            type: WebhookType.UserFollows,
+            previousSecret: "previous_secret",
+            previousSecretExpiresAt: new Date('2020-07-15T18:16:11.171Z')
+        });
+
+        beforeEach(function () {
+            keys = {
+                key1: {id: 'key1', key: crypto.randomBytes(32)},
+                key2: {id: 'key2', key: crypto.randomBytes(32)}
+            };
+            currentKeyId = 'key1';
+        });
+
+        it('Only stores encrypted secrets in the underlying persistence manager', async function () {
+            let backend = new MemoryBasedTwitchWebhookPersistenceManager();
+            let persistenceManager = new EncryptedTwitchWebhookPersistenceManager(backend, keyProvider);
+            let persistenceObject = webhook();
+            await persistenceManager.persistWebhook(persistenceObject);
+
+            let stored = <WebhookPersistenceObject>await backend.getWebhookById('webhookid');
+            assert.strictEqual(stored.secret.indexOf('enc:v1:key1:'), 0);
+            assert.strictEqual((<string>stored.previousSecret).indexOf('enc:v1:key1:'), 0);
+            assert.strictEqual(persistenceObject.secret, 'secret');
+            assert.deepStrictEqual(await persistenceManager.getWebhookById('webhookid'), webhook());
+            assert.deepStrictEqual(await persistenceManager.getAllWebhooks(), [webhook()]);
+            assert.strictEqual(persistenceManager.acquireLease !== undefined, true);
+        });
+
+        it('Re-encrypts plaintext secrets and secrets encrypted with an old key', async function () {
+            let backend = new MemoryBasedTwitchWebhookPersistenceManager();
+            let persistenceManager = new EncryptedTwitchWebhookPersistenceManager(backend, keyProvider);
+            await backend.persistWebhook(Object.assign(webhook(), {id: 'plaintext'}));
+            await persistenceManager.persistWebhook(webhook());
+            assert.strictEqual((<WebhookPersistenceObject>await persistenceManager.getWebhookById('plaintext')).secret, 'secret');
+
+            currentKeyId = 'key2';
+            assert.strictEqual(await persistenceManager.reencryptAll(), 2);
+            assert.strictEqual(await persistenceManager.reencryptAll(), 0);
+            for (let stored of await backend.getAllWebhooks()) {
+                assert.strictEqual(stored.secret.indexOf('enc:v1:key2:'), 0);
+            }
+
+            delete keys.key1;
+            assert.deepStrictEqual(await persistenceManager.getWebhookById('webhookid'), webhook());
+        });
+
+        it('Rejects secrets that were tampered with or whose key is gone', async function () {
+            let backend = new MemoryBasedTwitchWebhookPersistenceManager();
+            let persistenceManager = new EncryptedTwitchWebhookPersistenceManager(backend, keyProvider);
+            await persistenceManager.persistWebhook(webhook());
+            let stored = <WebhookPersistenceObject>await backend.getWebhookById('webhookid');
+
+            await backend.saveWebhook(Object.assign({}, stored, {secret: stored.secret.replace('enc:v1:key1:', 'enc:v1:key2:')}));
+            await assert.rejects(persistenceManager.getWebhookById('webhookid'), /Failed to decrypt/);
+
+            delete keys.key1;
+            await backend.saveWebhook(stored);
+            await assert.rejects(persistenceManager.getWebhookById('webhookid'), /not available/);
+        });
+    });
+
+    describe('Schema Migrations', function () {
+        let legacyWebhook = (): WebhookPersistenceObject => ({
+            id: 'user_changed?id=5',
+            type: WebhookType.UserChanged,
+            href: 'https://api.twitch.tv/helix/users?id=5',
+            subscribed: true,
+            secret: 'secret',
+            leaseSeconds: 864000
+        });
+
+        it('Migrates webhooks from any older schema version through every registered migration', async function () {
+            let registry = new WebhookMigrationRegistry().register({
+                fromVersion: WEBHOOK_SCHEMA_VERSION,
+                description: 'Count notifications',
+                migrate: (webhook) => <WebhookPersistenceObject>Object.assign(webhook, {notificationCount: 0})
+            });
+            let webhook = legacyWebhook();
+
+            assert.strictEqual(registry.latestVersion, WEBHOOK_SCHEMA_VERSION + 1);
+            assert.deepStrictEqual(await registry.migrate(webhook), Object.assign(legacyWebhook(), {
+                userId: '5',
+                notificationCount: 0,
+                schemaVersion: WEBHOOK_SCHEMA_VERSION + 1
+            }));
+            assert.strictEqual(webhook.schemaVersion, undefined);
+            assert.throws(() => registry.register({fromVersion: 1, description: 'Duplicate', migrate: (x) => <WebhookPersistenceObject>x}));
+            await assert.rejects(new WebhookMigrationRegistry().migrate(Object.assign(legacyWebhook(), {schemaVersion: WEBHOOK_SCHEMA_VERSION + 1})));
+        });
+
+        it('Upgrades webhooks on read, or all at once', async function () {
+            let backend = new MemoryBasedTwitchWebhookPersistenceManager();
+            let persistenceManager = new MigratingTwitchWebhookPersistenceManager(backend);
+            await backend.persistWebhook(legacyWebhook());
+            await backend.persistWebhook(Object.assign(legacyWebhook(), {id: 'other', href: 'https://api.twitch.tv/helix/users?id=6'}));
+
+            let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById('user_changed?id=5');
+            assert.strictEqual(webhook.userId, '5');
+            assert.strictEqual(webhook.schemaVersion, WEBHOOK_SCHEMA_VERSION);
+            assert.deepStrictEqual(await backend.getWebhookById('user_changed?id=5'), webhook);
+
+            assert.strictEqual(await persistenceManager.migrateAll(), 1);
+            assert.strictEqual(await persistenceManager.migrateAll(), 0);
+            assert.strictEqual((<WebhookPersistenceObject>await backend.getWebhookById('other')).userId, '6');
+        });
+
+        it('Writes new webhooks with the latest version of the registry', async function () {
+            let registry = new WebhookMigrationRegistry().register({
+                fromVersion: WEBHOOK_SCHEMA_VERSION,
+                description: 'Count notifications',
+                migrate: (webhook) => <WebhookPersistenceObject>Object.assign(webhook, {notificationCount: 0})
+            });
+            let backend = new MemoryBasedTwitchWebhookPersistenceManager();
+            let persistenceManager = new MigratingTwitchWebhookPersistenceManager(backend, registry);
+            let manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                persistenceManager: persistenceManager,
+                migrations: registry
+            });
+
+            try {
+                let webhook = createWebhookPersistenceObject(manager, WebhookType.UserChanged, new Map([['id', '5']]), {});
+                assert.strictEqual(webhook.schemaVersion, WEBHOOK_SCHEMA_VERSION + 1);
+                await persistenceManager.persistWebhook(Object.assign(webhook, {schemaVersion: WEBHOOK_SCHEMA_VERSION}));
+                assert.strictEqual((<WebhookPersistenceObject>await backend.getWebhookById(webhook.id)).schemaVersion, WEBHOOK_SCHEMA_VERSION + 1);
+                assert.strictEqual(await persistenceManager.migrateAll(), 0);
+            } finally {
+                await manager.destroy();
+            }
+        });
+    });
+
     describe('Default Renewal Scheduler', function () {
         class TestResubscribeable extends EventEmitter implements IResubscribeable {
             async resubscribePersistenceObject(webhook: WebhookPersistenceObject): Promise<void> {
@@ -316,6 +557,33 @@ describe('Twitch Webhooks', function () {
             });
         });
 
+        it('Emits renewalFailed when the renewal fails', async function () {
+            let rescheduler = new BasicWebhookRenewalScheduler();
+            let resubscribable = new TestResubscribeable();
+            let error = new Error('Renewal failed');
+            resubscribable.resubscribePersistenceObject = async () => {
+                throw error;
+            };
+            let now = Date.now();
+
+            let failed = new Promise((resolve) => resubscribable.on('renewalFailed', (webhookId: WebhookId, e: Error) => resolve([webhookId, e])));
+            resubscribable.on('error', () => {
+            });
+            rescheduler.setResubscribeableObject(resubscribable);
+            rescheduler.addToScheduler({
+                href: "/webhook?to_id=somethign",
+                id: 'webhookid',
+                leaseSeconds: 2,
+                secret: "secret",
+                subscribed: true,
+                type: WebhookType.UserFollows,
+                subscriptionStart: new Date(now - 3000),
+                subscriptionEnd: new Date(now - 1000)
+            });
+
+            assert.deepStrictEqual(await failed, ['webhookid', error]);
+        });
+
         it('Destroy properly stops resubscriptions from occuring', async function () {
             this.timeout(10000);
             this.slow(5000);
@@ -362,105 +630,2026 @@ describe('Twitch Webhooks', function () {
         });
     });
 
-    describe('Webhook Subscription/Unsubscription', function () {
-        let manager: TwitchWebhookManager | undefined;
-        let webhookServer: http.Server | undefined;
-        let persistenceManager: TwitchWebhookPersistenceManager | undefined;
+    describe('Retry Policy', function () {
+        const policy = {
+            maxAttempts: 3,
+            baseDelay: 10,
+            maxDelay: 100,
+            jitter: 0.5,
+            retryableStatusCodes: [500]
+        };
+
+        it('Retries retryable errors until the operation succeeds', async function () {
+            let attempts = 0;
+            let result = await withRetry(policy, async () => {
+                attempts++;
+                if (attempts < 3) {
+                    throw new TwitchRequestError(500, {}, 'Internal server error', {});
+                }
+                return 'done';
+            });
 
-        this.slow(5000);
-        this.timeout(15000);
+            assert.strictEqual(result, 'done');
+            assert.strictEqual(attempts, 3);
+        });
 
-        before(async function () {
-            await setUpMockWebhookServer({
-                hub_url: webhookHubUrl,
-                logErrors: true,
-                //verbose: true,
-                port: webhookHubPort,
-                pollTimerMs: 1000
+        it('Gives up once max attempts are exhausted', async function () {
+            let attempts = 0;
+            await assert.rejects(withRetry(policy, async () => {
+                attempts++;
+                throw new TwitchRequestError(500, {}, 'Internal server error', {});
+            }), /Internal server error/);
+            assert.strictEqual(attempts, 3);
+        });
+
+        it('Does not retry status codes that are not retryable', async function () {
+            let attempts = 0;
+            await assert.rejects(withRetry(policy, async () => {
+                attempts++;
+                throw new TwitchRequestError(400, {}, 'Bad request', {});
+            }), /Bad request/);
+            assert.strictEqual(attempts, 1);
+        });
+    });
+
+    describe('Rate-limit-aware Renewal Scheduler', function () {
+        class TestResubscribeable extends EventEmitter implements IResubscribeable {
+            calls: WebhookId[] = [];
+            failWith: Error | undefined;
+
+            async resubscribePersistenceObject(webhook: WebhookPersistenceObject): Promise<void> {
+                this.calls.push(webhook.id);
+                if (this.failWith) {
+                    throw this.failWith;
+                }
+            }
+        }
+
+        function expiredWebhook(id: string, expiredMs: number): WebhookPersistenceObject {
+            let now = Date.now();
+            return {
+                href: "/webhook?to_id=somethign",
+                id: id,
+                leaseSeconds: 2,
+                secret: "secret",
+                subscribed: true,
+                type: WebhookType.UserFollows,
+                subscriptionStart: new Date(now - 2000 - expiredMs),
+                subscriptionEnd: new Date(now - expiredMs)
+            };
+        }
+
+        it('Does not renew more webhooks than the bucket allows, soonest expiry first', function () {
+            let rescheduler = new RateLimitAwareWebhookRenewalScheduler({bucketSize: 2, refillInterval: 3600000});
+            let resubscribable = new TestResubscribeable();
+            rescheduler.setResubscribeableObject(resubscribable);
+
+            for (let i = 0; i < 5; i++) {
+                rescheduler.addToScheduler(expiredWebhook(`webhook${i}`, i * 100));
+            }
+            rescheduler.run();
+            rescheduler.run();
+
+            assert.deepStrictEqual(resubscribable.calls, ['webhook4', 'webhook3']);
+        });
+
+        it('Defers renewals until the rate limit resets after a 429', async function () {
+            this.timeout(5000);
+            this.slow(3000);
+            let rescheduler = new RateLimitAwareWebhookRenewalScheduler();
+            let resubscribable = new TestResubscribeable();
+            rescheduler.setResubscribeableObject(resubscribable);
+            resubscribable.failWith = new RateLimitHitTwitchRequestError({
+                'ratelimit-limit': '800',
+                'ratelimit-reset': `${Math.ceil(Date.now() / 1000) + 1}`
+            }, {});
+
+            rescheduler.addToScheduler(expiredWebhook('webhook', 0));
+            rescheduler.run();
+            await new Promise((resolve) => setImmediate(resolve));
+            resubscribable.failWith = undefined;
+
+            rescheduler.run();
+            assert.deepStrictEqual(resubscribable.calls, ['webhook']);
+
+            await new Promise((resolve) => setTimeout(resolve, 2100));
+            rescheduler.run();
+            assert.deepStrictEqual(resubscribable.calls, ['webhook', 'webhook']);
+        });
+    });
+
+    describe('Coordinated Renewal Scheduler', function () {
+        class RecordingScheduler implements WebhookRenewalScheduler {
+            scheduled: Set<WebhookId> = new Set<WebhookId>();
+
+            setResubscribeableObject(_: IResubscribeable): void {
+            }
+
+            addToScheduler(webhook: WebhookPersistenceObject): void {
+                this.scheduled.add(webhook.id);
+            }
+
+            removeFromScheduler(webhook: WebhookId): void {
+                this.scheduled.delete(webhook);
+            }
+
+            getMetaData() {
+                return {runInterval: Infinity};
+            }
+
+            run(): void {
+            }
+
+            async destroy(): Promise<void> {
+                this.scheduled.clear();
+            }
+        }
+
+        let webhook: WebhookPersistenceObject = {
+            href: "http://localhost/webhook",
+            id: "webhookid",
+            leaseSeconds: 2,
+            secret: "secret",
+            subscribed: true,
+            subscriptionEnd: new Date(Date.now() + 2000),
+            subscriptionStart: new Date(),
+            type: WebhookType.UserFollows
+        };
+
+        it('Only lets the lease holder renew a webhook, and releases leases on destroy', async function () {
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            await persistenceManager.persistWebhook(webhook);
+            let inner = [new RecordingScheduler(), new RecordingScheduler()];
+            let schedulers = inner.map(x => new CoordinatedWebhookRenewalScheduler(x, persistenceManager, {
+                leaseTtl: 300,
+                heartbeatInterval: 50
+            }));
+
+            try {
+                schedulers.forEach(x => x.addToScheduler(webhook));
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                assert.strictEqual(inner[0].scheduled.size + inner[1].scheduled.size, 1);
+                assert.ok(inner[0].scheduled.has(webhook.id));
+
+                await schedulers[0].destroy();
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                assert.ok(inner[1].scheduled.has(webhook.id));
+            } finally {
+                await Promise.all(schedulers.map(x => x.destroy()));
+            }
+        });
+
+        it('Fails ownership over once the owner stops heartbeating', async function () {
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            await persistenceManager.persistWebhook(webhook);
+            //The owner's view of the backend; Made unreachable to simulate the owner dying.
+            let ownerPersistenceManager = Object.create(persistenceManager);
+            let inner = [new RecordingScheduler(), new RecordingScheduler()];
+            let schedulers = [
+                new CoordinatedWebhookRenewalScheduler(inner[0], ownerPersistenceManager, {leaseTtl: 300, heartbeatInterval: 50}),
+                new CoordinatedWebhookRenewalScheduler(inner[1], persistenceManager, {leaseTtl: 300, heartbeatInterval: 50})
+            ];
+
+            try {
+                schedulers.forEach(x => x.addToScheduler(webhook));
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                assert.ok(inner[0].scheduled.has(webhook.id));
+
+                ownerPersistenceManager.acquireLease = async () => {
+                    throw new Error('Connection lost');
+                };
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                assert.strictEqual(inner[0].scheduled.size, 0);
+                assert.strictEqual(inner[1].scheduled.size, 0, 'Took over before the lease expired');
+
+                await new Promise((resolve) => setTimeout(resolve, 350));
+                assert.ok(inner[1].scheduled.has(webhook.id));
+            } finally {
+                await Promise.all(schedulers.map(x => x.destroy()));
+            }
+        });
+
+        it("Reschedules renewals whose verification reached another instance", async function () {
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let expiring = Object.assign({}, webhook, {subscriptionStart: new Date(Date.now() - 2000), subscriptionEnd: new Date()});
+            await persistenceManager.persistWebhook(expiring);
+            let owner = new BasicWebhookRenewalScheduler();
+            let other = new RecordingScheduler();
+            let schedulers = [owner, other].map(x => new CoordinatedWebhookRenewalScheduler(x, persistenceManager, {
+                leaseTtl: 300,
+                heartbeatInterval: 50
+            }));
+            let renewals = 0;
+            //Renews the webhook, with the hub's verification landing on the other instance.
+            schedulers[0].setResubscribeableObject(Object.assign(new EventEmitter(), {
+                resubscribePersistenceObject: async (renewed: WebhookPersistenceObject) => {
+                    renewals++;
+                    renewed = Object.assign({}, renewed, {subscriptionStart: new Date(), subscriptionEnd: new Date(Date.now() + 60000)});
+                    await persistenceManager.saveWebhook(renewed);
+                    schedulers[1].addToScheduler(renewed);
+                }
+            }));
+
+            try {
+                schedulers[0].addToScheduler(expiring);
+                await new Promise((resolve) => setTimeout(resolve, 150));
+                assert.strictEqual(renewals, 1);
+                assert.strictEqual(other.scheduled.size, 0);
+                assert.ok(owner.getScheduledRenewal(webhook.id));
+            } finally {
+                await Promise.all(schedulers.map(x => x.destroy()));
+            }
+        });
+
+        it("Logs lease errors through the manager's logger", async function () {
+            let persistenceManager = Object.create(new MemoryBasedTwitchWebhookPersistenceManager());
+            persistenceManager.releaseLease = async () => {
+                throw new Error('Connection lost');
+            };
+            let errors: string[] = [];
+            let resubscribeable = Object.assign(new EventEmitter(), {
+                config: {
+                    logger: {
+                        debug: () => undefined,
+                        info: () => undefined,
+                        error: (message: string, e: Error) => errors.push(message + e.message)
+                    }
+                },
+                resubscribePersistenceObject: async () => undefined
             });
-            await clearDb();
+            let scheduler = new CoordinatedWebhookRenewalScheduler(new RecordingScheduler(), persistenceManager, {heartbeatInterval: 50});
+            scheduler.setResubscribeableObject(resubscribeable);
+
+            try {
+                scheduler.addToScheduler(webhook);
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                scheduler.removeFromScheduler(webhook.id);
+                await new Promise((resolve) => setImmediate(resolve));
+                assert.deepStrictEqual(errors, ['Error while releasing renewal lease for webhookid: Connection lost']);
+            } finally {
+                await scheduler.destroy();
+            }
         });
+    });
 
-        beforeEach(function () {
+    describe('Notification De-duplication', function () {
+        const deduplicationPort = 3082;
+
+        it('Reports ids seen within the window as duplicates', async function () {
+            let store = new MemoryLRUNotificationIdStore();
+            assert.strictEqual(await store.checkAndRecord('id', new Date(Date.now() + 1000)), false);
+            assert.strictEqual(await store.checkAndRecord('id', new Date(Date.now() + 1000)), true);
+            assert.strictEqual(await store.checkAndRecord('other', new Date(Date.now() + 1000)), false);
+        });
+
+        it('Forgets expired and least recently seen ids', async function () {
+            let store = new MemoryLRUNotificationIdStore(2);
+            await store.checkAndRecord('expired', new Date(Date.now() - 1));
+            assert.strictEqual(await store.checkAndRecord('expired', new Date(Date.now() + 1000)), false);
+
+            await store.checkAndRecord('second', new Date(Date.now() + 1000));
+            await store.checkAndRecord('third', new Date(Date.now() + 1000));
+            assert.strictEqual(await store.checkAndRecord('expired', new Date(Date.now() + 1000)), false);
+        });
+
+        it('Emits a notification delivered twice only once', async function () {
             const app = express();
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let manager = new TwitchWebhookManager({
+                hostname: `http://localhost:${deduplicationPort}`,
+                app,
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager
+            });
+            let server = await new Promise<http.Server>((resolve) => {
+                let s: http.Server = app.listen(deduplicationPort, () => resolve(s));
+            });
+
+            try {
+                await persistenceManager.persistWebhook({
+                    id: 'follows?first=1&to_id=1',
+                    type: WebhookType.UserFollows,
+                    href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                    subscribed: true,
+                    secret: 'secret',
+                    leaseSeconds: 864000
+                });
+
+                let notificationIds: (string | undefined)[] = [];
+                manager.on('message', (_, payload) => notificationIds.push(payload.notificationId));
+
+                let body = JSON.stringify({
+                    data: [{
+                        from_id: '2',
+                        from_name: 'test_follower',
+                        to_id: '1',
+                        to_name: 'test_user',
+                        followed_at: '2020-07-15T18:16:11.171Z'
+                    }]
+                });
+                for (let i = 0; i < 2; i++) {
+                    await got.post(`http://localhost:${deduplicationPort}/webhooks/follows?first=1&to_id=1`, {
+                        headers: {
+                            'Content-Type': 'application/json',
+                            'Twitch-Notification-Id': 'notification',
+                            'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex')
+                        },
+                        body: body
+                    });
+                }
+                await new Promise((resolve) => setTimeout(resolve, 100));
+
+                assert.deepStrictEqual(notificationIds, ['notification']);
+            } finally {
+                await manager.destroy();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+    });
+
+    describe('Notification Verification', function () {
+        let body = Buffer.from('{"data":[]}');
+
+        it('Accepts signatures using any supported algorithm', function () {
+            for (let algorithm of ['sha1', 'sha256', 'sha512']) {
+                let signature = `${algorithm}=` + crypto.createHmac(algorithm, 'secret').update(body).digest('hex');
+                verifyHubSignature('secret', body, signature);
+            }
+        });
+
+        it('Rejects missing, unsupported and mismatched signatures', function () {
+            let signature = crypto.createHmac('sha256', 'secret').update(body).digest('hex');
+            assert.throws(() => verifyHubSignature('secret', body, undefined), {reason: 'missing'});
+            assert.throws(() => verifyHubSignature('secret', body, `md5=${signature}`), {reason: 'unsupported_algorithm'});
+            assert.throws(() => verifyHubSignature('secret', body, signature), {reason: 'unsupported_algorithm'});
+            assert.throws(() => verifyHubSignature('other', body, `sha256=${signature}`), {reason: 'mismatch'});
+        });
+
+        it('Rejects notifications older than the tolerance', function () {
+            checkNotificationAge(new Date().toISOString(), 60);
+            assert.throws(() => checkNotificationAge(new Date(Date.now() - 61000).toISOString(), 60), {toleranceSeconds: 60});
+            assert.throws(() => checkNotificationAge(undefined, 60), {timestamp: undefined});
+        });
+    });
 
+    describe('Request Handler', function () {
+        const handlerPort = 3083;
+        let manager: TwitchWebhookManager;
+        let persistenceManager: MemoryBasedTwitchWebhookPersistenceManager;
+
+        beforeEach(async function () {
             persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
             manager = new TwitchWebhookManager({
-                hostname: webhookSubscriberUrl,
-                app,
+                hostname: `http://localhost:${handlerPort}`,
                 client_id: 'test_client_id',
                 getOAuthToken: async (_) => 'oauth',
                 refreshOAuthToken: async (_) => 'oauth',
                 base_path: 'webhooks',
-                hubUrl: webhookHubUrl,
-                persistenceManager: persistenceManager,
-                /*logger: {
-                    info: ((message, ...args) => console.info('[INFO][TwitchWebhookManager] ' + message, ...args)),
-                    debug: ((message, ...args) => console.debug('[DEBUG][TwitchWebhookManager] ' + message, ...args)),
-                    error: ((message, ...args) => console.error('[ERROR][TwitchWebhookManager] ' + message, ...args))
-                }*/
+                persistenceManager: persistenceManager
             });
-
-            return new Promise((resolve, _) => {
-                webhookServer = app.listen(webhookSubscriberPort, resolve);
+            await persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: false,
+                secret: 'secret',
+                leaseSeconds: 864000
             });
         });
 
         afterEach(async function () {
-            await clearDb();
-            if (manager) {
-                await manager.destroy();
-            }
-            manager = undefined;
-            persistenceManager = undefined;
-            return new Promise((resolve, reject) => {
-                if (webhookServer) {
-                    webhookServer.close((e) => {
-                        webhookServer = undefined;
-                        if (e) {
-                            return reject(e);
-                        }
-                        return resolve();
-                    });
-                }
+            await manager.destroy();
+        });
+
+        it('Answers hub verification without an HTTP framework', async function () {
+            let subscribed = new Promise((resolve) => manager.on('subscribed', resolve));
+            let topic = encodeURIComponent('https://api.twitch.tv/helix/users/follows?first=1&to_id=1');
+            let response = await manager.handleRequest({
+                method: 'GET',
+                url: `/webhooks/follows?hub.mode=subscribe&hub.topic=${topic}&hub.lease_seconds=864000&hub.challenge=challenge`,
+                headers: {},
+                body: Buffer.alloc(0)
             });
+
+            assert.deepStrictEqual(response, {status: 200, headers: {"Content-Type": "text/plain"}, body: 'challenge'});
+            assert.strictEqual(await subscribed, 'follows?first=1&to_id=1');
         });
 
-        after(async function () {
-            await closeMockServer(true);
+        it('Responds with a 404 for paths that are not webhook paths', async function () {
+            let response = await manager.handleRequest({
+                method: 'POST',
+                url: '/webhooks/unknown',
+                headers: {},
+                body: Buffer.alloc(0)
+            });
+
+            assert.strictEqual(response.status, 404);
         });
 
-        it("Doesn't error when subscribing to each endpoint", async function () {
-            if (manager) {
-                await manager.addUserFollowsSubscription({}, {
-                    to_id: '1'
-                });
-                await manager.addStreamChangedSubscription({}, {
-                    user_id: '1'
-                });
-                await manager.addUserChangedSubscription({}, {
-                    user_id: '1'
-                });
-                await manager.addExtensionTransactionCreatedSubscription({}, {
-                    extension_id: '12'
-                });
-                await manager.addChannelBanChangedSubscription({}, {
-                    broadcaster_id: '1'
+        it('Serves notifications through a plain node http server', async function () {
+            let server = http.createServer(nodeHttpAdapter(manager, (_, res) => {
+                res.statusCode = 418;
+                res.end();
+            }));
+            await new Promise((resolve) => server.listen(handlerPort, resolve));
+
+            try {
+                let message = new Promise((resolve) => manager.on('userFollows', (_, payload) => resolve(payload.data.from_id)));
+                let body = JSON.stringify({
+                    data: [{
+                        from_id: '2',
+                        from_name: 'test_follower',
+                        to_id: '1',
+                        to_name: 'test_user',
+                        followed_at: '2020-07-15T18:16:11.171Z'
+                    }]
                 });
-                await manager.addModeratorChangedSubscription({}, {
-                    broadcaster_id: '1'
-                });
-                await manager.addSubscriptionSubscription({}, {
-                    broadcaster_id: '1'
+                let resp = await got.post(`http://localhost:${handlerPort}/webhooks/follows?first=1&to_id=1`, {
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex')
+                    },
+                    body: body
                 });
-            } else {
-                throw new Error('Manager is undefined');
+
+                assert.strictEqual(resp.statusCode, 200);
+                assert.strictEqual(await message, '2');
+                assert.strictEqual((await got(`http://localhost:${handlerPort}/other`, {throwHttpErrors: false})).statusCode, 418);
+            } finally {
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+
+        let streamOf = (body: string) => {
+            let stream = new Readable({
+                read() {
+                }
+            });
+            stream.push(body);
+            stream.push(null);
+            return stream;
+        };
+        let followBody = (fromId: string) => JSON.stringify({
+            data: [{from_id: fromId, from_name: 'from', to_id: '1', to_name: 'to', followed_at: '2020-07-15T18:16:11.171Z'}]
+        });
+        let signedHeaders = (body: string) => ({'x-hub-signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex')});
+        let verificationUrl = `/webhooks/follows?hub.mode=subscribe&hub.topic=${encodeURIComponent('https://api.twitch.tv/helix/users/follows?first=1&to_id=1')}&hub.lease_seconds=864000&hub.challenge=challenge`;
+
+        it('Serves requests through Koa, with or without a raw body kept by a body parser', async function () {
+            let fromIds: string[] = [];
+            manager.on('userFollows', (_, payload) => fromIds.push(payload.data.from_id));
+            let middleware = koaAdapter(manager);
+            let createContext = (method: string, url: string, headers: http.IncomingHttpHeaders, body: string, rawBody?: string) => {
+                let ctx = {
+                    req: <http.IncomingMessage><any>streamOf(body),
+                    path: new URL(url, 'http://localhost').pathname,
+                    method: method,
+                    url: url,
+                    headers: headers,
+                    status: 404,
+                    body: <any>undefined,
+                    responseHeaders: <{ [key: string]: string }>{},
+                    set(field: string, value: string) {
+                        ctx.responseHeaders[field] = value;
+                    },
+                    request: {rawBody: rawBody}
+                };
+                return ctx;
+            };
+            let next = async () => {
+                throw new Error('Passed a webhook request down the middleware chain');
+            };
+
+            let parsed = createContext('POST', '/webhooks/follows?first=1&to_id=1', signedHeaders(followBody('2')), '', followBody('2'));
+            await middleware(parsed, next);
+            assert.strictEqual(parsed.status, 200);
+            assert.strictEqual(parsed.body, '');
+
+            let unparsed = createContext('POST', '/webhooks/follows?first=1&to_id=1', signedHeaders(followBody('3')), followBody('3'));
+            await middleware(unparsed, next);
+            assert.strictEqual(unparsed.status, 200);
+
+            let verification = createContext('GET', verificationUrl, {}, '');
+            await middleware(verification, next);
+            assert.strictEqual(verification.status, 200);
+            assert.deepStrictEqual(verification.responseHeaders, {'Content-Type': 'text/plain'});
+            assert.strictEqual(verification.body, 'challenge');
+
+            let other = createContext('GET', '/other', {}, '');
+            let passedOn = false;
+            await middleware(other, async () => {
+                passedOn = true;
+            });
+            assert.ok(passedOn);
+            assert.strictEqual(other.status, 404);
+
+            await new Promise((resolve) => setImmediate(resolve));
+            assert.deepStrictEqual(fromIds, ['2', '3']);
+        });
+
+        it('Serves requests through Fastify, capturing the raw body before it is parsed', async function () {
+            let fromIds: string[] = [];
+            manager.on('userFollows', (_, payload) => fromIds.push(payload.data.from_id));
+            let preParsing: (request: FastifyRequest, reply: FastifyReply, payload: Readable) => Promise<Readable> = async (_, __, payload) => payload;
+            let routes: { [url: string]: (request: FastifyRequest, reply: FastifyReply) => Promise<void> } = {};
+            let done = false;
+            fastifyAdapter(manager)({
+                addHook: (_, hook) => preParsing = hook,
+                route: (options) => routes[options.url] = options.handler
+            }, {}, () => done = true);
+            assert.ok(done);
+            assert.ok(routes['/webhooks/follows']);
+
+            let createReply = () => {
+                let reply = {
+                    status: 0,
+                    headerValues: <{ [key: string]: string }>{},
+                    payload: <any>undefined,
+                    code(statusCode: number) {
+                        reply.status = statusCode;
+                        return reply;
+                    },
+                    headers(values: { [key: string]: string }) {
+                        Object.assign(reply.headerValues, values);
+                        return reply;
+                    },
+                    send(payload?: any) {
+                        reply.payload = payload;
+                        return reply;
+                    }
+                };
+                return reply;
+            };
+
+            let body = followBody('2');
+            let request: FastifyRequest = {method: 'POST', url: '/webhooks/follows?first=1&to_id=1', headers: signedHeaders(body)};
+            let reply = createReply();
+            let parsed = await preParsing(request, reply, streamOf(body));
+            //Fastify's own parser still gets the whole body.
+            let forwarded = await new Promise<Buffer>((resolve) => parsed.pipe(concat({encoding: 'buffer'}, resolve)));
+            assert.strictEqual(forwarded.toString('utf8'), body);
+            await routes['/webhooks/follows'](request, reply);
+            assert.strictEqual(reply.status, 200);
+            assert.strictEqual(reply.payload, undefined);
+
+            reply = createReply();
+            await routes['/webhooks/follows']({method: 'GET', url: verificationUrl, headers: {}}, reply);
+            assert.strictEqual(reply.status, 200);
+            assert.deepStrictEqual(reply.headerValues, {'Content-Type': 'text/plain'});
+            assert.strictEqual(reply.payload, 'challenge');
+
+            await new Promise((resolve) => setImmediate(resolve));
+            assert.deepStrictEqual(fromIds, ['2']);
+        });
+
+        it('Accepts the previous secret until its grace period ends', async function () {
+            let post = (secret: string) => {
+                let body = JSON.stringify({data: []});
+                return manager.handleRequest({
+                    method: 'POST',
+                    url: '/webhooks/follows?first=1&to_id=1',
+                    headers: {
+                        'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex'),
+                        'Twitch-Notification-Id': crypto.randomBytes(8).toString('hex')
+                    },
+                    body: Buffer.from(body)
+                });
+            };
+            let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById('follows?first=1&to_id=1');
+            webhook.previousSecret = 'old_secret';
+            webhook.previousSecretExpiresAt = new Date(Date.now() + 60000);
+            await persistenceManager.saveWebhook(webhook);
+
+            assert.strictEqual((await post('secret')).status, 200);
+            assert.strictEqual((await post('old_secret')).status, 200);
+            assert.strictEqual((await post('other_secret')).status, 400);
+
+            webhook.previousSecretExpiresAt = new Date(Date.now() - 1000);
+            await persistenceManager.saveWebhook(webhook);
+            assert.strictEqual((await post('old_secret')).status, 400);
+        });
+
+        it('Dispatches every item of the data array, and handles empty and missing arrays', async function () {
+            await persistenceManager.persistWebhook({
+                id: 'stream_changed?user_id=1',
+                type: WebhookType.StreamChanged,
+                href: 'https://api.twitch.tv/helix/streams?user_id=1',
+                subscribed: true,
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+            let post = (path: string, message: any) => {
+                let body = JSON.stringify(message);
+                return manager.handleRequest({
+                    method: 'POST',
+                    url: path,
+                    headers: {
+                        'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex'),
+                        'Twitch-Notification-Id': crypto.randomBytes(8).toString('hex')
+                    },
+                    body: Buffer.from(body)
+                });
+            };
+            let payloads: WebhookPayload<any>[] = [];
+            manager.on('message', (_, payload) => payloads.push(payload));
+            let follow = (fromId: string) => ({from_id: fromId, from_name: 'from', to_id: '1', to_name: 'to', followed_at: '2020-07-15T18:16:11.171Z'});
+
+            assert.strictEqual((await post('/webhooks/follows?first=1&to_id=1', {data: [follow('2'), follow('3')]})).status, 200);
+            assert.strictEqual((await post('/webhooks/follows?first=1&to_id=1', {data: []})).status, 200);
+            assert.strictEqual((await post('/webhooks/follows?first=1&to_id=1', {})).status, 400);
+            assert.strictEqual((await post('/webhooks/stream_changed?user_id=1', {data: []})).status, 200);
+            await new Promise((resolve) => setImmediate(resolve));
+
+            assert.deepStrictEqual(payloads.map(x => x.data && x.data.from_id), ['2', '3', undefined]);
+            assert.deepStrictEqual(payloads.map(x => x.batch), [{index: 0, size: 2}, {index: 1, size: 2}, {index: 0, size: 0}]);
+            assert.strictEqual(payloads[0].notificationId, payloads[1].notificationId);
+            assert.strictEqual(payloads[2].type, WebhookType.StreamChanged);
+            assert.strictEqual(payloads[2].data, undefined);
+        });
+    });
+
+    describe('Payload Validation', function () {
+        let followEvent = () => ({from_id: '2', from_name: 'from', to_id: '1', to_name: 'to', followed_at: new Date(), extra: 'kept'});
+
+        it('Reports the path of the first invalid field', function () {
+            validatePayloadData(WebhookType.UserFollows, followEvent());
+            validatePayloadData(WebhookType.StreamChanged, undefined);
+
+            assert.throws(() => validatePayloadData(WebhookType.UserFollows, Object.assign(followEvent(), {to_name: undefined})),
+                (e: any) => e.path === 'data.to_name' && e.expected === 'string' && e.actual === 'undefined');
+            assert.throws(() => validatePayloadData(WebhookType.UserFollows, Object.assign(followEvent(), {followed_at: undefined})),
+                (e: any) => e.path === 'data.followed_at' && e.expected === 'date');
+            //As twitch sends them, before they are converted.
+            validatePayloadData(WebhookType.UserFollows, Object.assign(followEvent(), {followed_at: '2020-07-15T18:16:11.171Z'}));
+            assert.throws(() => validatePayloadData(WebhookType.UserFollows, Object.assign(followEvent(), {followed_at: 'yesterday'})),
+                (e: any) => e.path === 'data.followed_at' && e.actual === '"yesterday"');
+            assert.throws(() => validatePayloadData(WebhookType.Subscription, {
+                id: '1',
+                event_type: 'subscriptions.subscribe',
+                event_timestamp: new Date(),
+                version: '1.0',
+                event_data: {broadcaster_id: '1', broadcaster_name: 'b', is_gift: 'no'}
+            }), (e: any) => e.path === 'data.event_data.is_gift' && e.actual === 'string');
+        });
+
+        it('Drops invalid payloads in strict mode, and dispatches them in lenient mode', async function () {
+            let failures: any[] = [];
+            let deliver = async (mode: PayloadValidationMode) => {
+                let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+                let manager = new TwitchWebhookManager({
+                    hostname: 'http://localhost',
+                    client_id: 'test_client_id',
+                    getOAuthToken: async (_) => 'oauth',
+                    refreshOAuthToken: async (_) => 'oauth',
+                    base_path: 'webhooks',
+                    persistenceManager: persistenceManager,
+                    payloadValidation: mode
+                });
+                await persistenceManager.persistWebhook({
+                    id: 'follows?first=1&to_id=1',
+                    type: WebhookType.UserFollows,
+                    href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                    subscribed: true,
+                    secret: 'secret',
+                    leaseSeconds: 864000
+                });
+
+                try {
+                    manager.on('payloadValidationFailed', (e, webhookId, dispatched) => failures.push([e.path, webhookId, dispatched]));
+                    let outcome = new Promise<any>((resolve) => {
+                        manager.on('error', resolve);
+                        manager.on('message', (_, payload) => resolve(payload));
+                    });
+                    let body = JSON.stringify({data: [{from_id: '2', to_id: '1', to_name: 'to', followed_at: '2020-07-15T18:16:11.171Z', extra: 'kept'}]});
+                    let response = await manager.handleRequest({
+                        method: 'POST',
+                        url: '/webhooks/follows?first=1&to_id=1',
+                        headers: {'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex')},
+                        body: Buffer.from(body)
+                    });
+                    assert.strictEqual(response.status, 200);
+                    return await outcome;
+                } finally {
+                    await manager.destroy();
+                }
+            };
+
+            let error = await deliver('strict');
+            assert.strictEqual(error.path, 'data.from_name');
+            assert.strictEqual(error.webhookId, 'follows?first=1&to_id=1');
+            let payload = await deliver('lenient');
+            assert.strictEqual(payload.data.extra, 'kept');
+            assert.strictEqual(payload.data.from_name, undefined);
+            assert.deepStrictEqual(failures, [
+                ['data.from_name', 'follows?first=1&to_id=1', false],
+                ['data.from_name', 'follows?first=1&to_id=1', true]
+            ]);
+        });
+
+        it('Keeps dispatching the rest of a batch in strict mode without an error listener', async function () {
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                payloadValidation: 'strict'
+            });
+            await persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: true,
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+
+            try {
+                let message = new Promise<any>((resolve) => manager.on('message', (_, payload) => resolve(payload)));
+                let body = JSON.stringify({
+                    data: [
+                        {from_id: '2', to_id: '1', to_name: 'to', followed_at: '2020-07-15T18:16:11.171Z'},
+                        {from_id: '3', from_name: 'from', to_id: '1', to_name: 'to', followed_at: '2020-07-15T18:16:11.171Z'}
+                    ]
+                });
+                let response = await manager.handleRequest({
+                    method: 'POST',
+                    url: '/webhooks/follows?first=1&to_id=1',
+                    headers: {'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex')},
+                    body: Buffer.from(body)
+                });
+
+                assert.strictEqual(response.status, 200);
+                let payload = await message;
+                assert.strictEqual(payload.data.from_id, '3');
+                assert.deepStrictEqual(payload.batch, {index: 1, size: 2});
+            } finally {
+                await manager.destroy();
+            }
+        });
+
+        it('Rejects items of a batch that are not objects, and dispatches the rest', async function () {
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                payloadValidation: 'strict'
+            });
+            await persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: true,
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+
+            try {
+                let message = new Promise<any>((resolve) => manager.on('message', (_, payload) => resolve(payload)));
+                let error = new Promise<any>((resolve) => manager.on('error', resolve));
+                let body = JSON.stringify({
+                    data: [
+                        {from_id: '2', from_name: 'from', to_id: '1', to_name: 'to', followed_at: '2020-07-15T18:16:11.171Z'},
+                        null
+                    ]
+                });
+                let response = await manager.handleRequest({
+                    method: 'POST',
+                    url: '/webhooks/follows?first=1&to_id=1',
+                    headers: {'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex')},
+                    body: Buffer.from(body)
+                });
+
+                assert.strictEqual(response.status, 200);
+                let payload = await message;
+                assert.strictEqual(payload.data.from_id, '2');
+                assert.deepStrictEqual(payload.batch, {index: 0, size: 2});
+                let e = await error;
+                assert.strictEqual(e.path, 'data');
+                assert.strictEqual(e.actual, 'null');
+            } finally {
+                await manager.destroy();
+            }
+        });
+    });
+
+    describe('Admin Routes', function () {
+        let manager: TwitchWebhookManager;
+        let persistenceManager: MemoryBasedTwitchWebhookPersistenceManager;
+        let calls: string[];
+
+        function adminRequest(method: string, url: string, authorized: boolean = false) {
+            return manager.handleRequest({
+                method: method,
+                url: url,
+                headers: authorized ? {'Authorization': 'Bearer admin'} : {},
+                body: Buffer.alloc(0)
+            });
+        }
+
+        beforeEach(async function () {
+            calls = [];
+            persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let renewalScheduler = new BasicWebhookRenewalScheduler();
+            manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                renewalScheduler: renewalScheduler,
+                admin: {
+                    authorize: (request) => request.headers['authorization'] === 'Bearer admin'
+                }
+            });
+            manager.resubscribePersistenceObject = async (webhook, reason) => {
+                calls.push(`resubscribe ${webhook.id} (${reason})`);
+            };
+            manager.unsubscribePersistenceObject = async (webhook) => {
+                calls.push('unsubscribe ' + webhook.id);
+            };
+
+            let now = Date.now();
+            let webhooks: [string, boolean, number | undefined][] = [
+                ['follows?first=1&to_id=1', true, 5 * 24 * 60 * 60 * 1000],
+                ['follows?first=1&to_id=2', true, 60 * 60 * 1000],
+                ['follows?first=1&to_id=3', true, -1000],
+                ['follows?first=1&to_id=4', false, undefined]
+            ];
+            for (let [id, subscribed, expiresIn] of webhooks) {
+                let webhook: WebhookPersistenceObject = {
+                    id: id,
+                    type: WebhookType.UserFollows,
+                    href: 'https://api.twitch.tv/helix/users/' + id,
+                    subscribed: subscribed,
+                    subscriptionStart: expiresIn !== undefined ? new Date(now - 1000) : undefined,
+                    subscriptionEnd: expiresIn !== undefined ? new Date(now + expiresIn) : undefined,
+                    secret: 'secret',
+                    leaseSeconds: 864000
+                };
+                await persistenceManager.persistWebhook(webhook);
+            }
+            renewalScheduler.addToScheduler(<WebhookPersistenceObject>await persistenceManager.getWebhookById('follows?first=1&to_id=1'));
+        });
+
+        afterEach(async function () {
+            await manager.destroy();
+        });
+
+        it('Reports subscription health', async function () {
+            let response = await adminRequest('GET', '/webhooks/_status');
+            assert.strictEqual(response.status, 200);
+            let status = JSON.parse(<string>response.body);
+            assert.strictEqual(status.healthy, false);
+            assert.strictEqual(status.total, 4);
+            assert.strictEqual(status.byType.UserFollows, 4);
+            assert.strictEqual(status.byType.StreamChanged, 0);
+            assert.strictEqual(status.subscribed, 2);
+            assert.strictEqual(status.expiring, 1);
+            assert.strictEqual(status.expired, 1);
+            assert.strictEqual(status.pending, 1);
+            assert.strictEqual(status.scheduled, 1);
+        });
+
+        it('Lists and shows webhooks, including their next renewal', async function () {
+            let response = await adminRequest('GET', '/webhooks/_webhooks');
+            assert.strictEqual(JSON.parse(<string>response.body).length, 4);
+
+            response = await adminRequest('GET', '/webhooks/_webhooks/' + encodeURIComponent('follows?first=1&to_id=1'));
+            let webhook = JSON.parse(<string>response.body);
+            assert.strictEqual(webhook.id, 'follows?first=1&to_id=1');
+            assert.deepStrictEqual(webhook.params, {to_id: '1'});
+            assert.ok(webhook.nextRenewal);
+            assert.strictEqual(webhook.secret, undefined);
+
+            response = await adminRequest('GET', '/webhooks/_webhooks/' + encodeURIComponent('follows?first=1&to_id=5'));
+            assert.strictEqual(response.status, 404);
+        });
+
+        it('Only resubscribes and unsubscribes for authorized requests', async function () {
+            let id = encodeURIComponent('follows?first=1&to_id=3');
+            assert.strictEqual((await adminRequest('POST', `/webhooks/_webhooks/${id}/resubscribe`)).status, 401);
+            assert.strictEqual((await adminRequest('DELETE', `/webhooks/_webhooks/${id}`)).status, 401);
+            assert.strictEqual((await adminRequest('POST', `/webhooks/_webhooks/${id}`, true)).status, 405);
+            assert.deepStrictEqual(calls, []);
+
+            assert.strictEqual((await adminRequest('POST', `/webhooks/_webhooks/${id}/resubscribe`, true)).status, 202);
+            assert.strictEqual((await adminRequest('DELETE', `/webhooks/_webhooks/${id}`, true)).status, 202);
+            assert.deepStrictEqual(calls, ['resubscribe follows?first=1&to_id=3 (admin)', 'unsubscribe follows?first=1&to_id=3']);
+        });
+    });
+
+    describe('Metrics', function () {
+        it('Renders counters and histograms in the Prometheus text format', async function () {
+            let registry = new MetricsRegistry();
+            let counter = registry.register(new Counter('test_total', 'A test counter.', ['mode']));
+            let histogram = registry.register(new Histogram('test_seconds', 'A test histogram.', [], [0.1, 1]));
+            counter.inc({mode: 'sub"scribe'});
+            counter.inc({mode: 'sub"scribe'}, 2);
+            histogram.observe({}, 0.05);
+            histogram.observe({}, 0.5);
+            histogram.observe({}, 5);
+
+            assert.strictEqual(await registry.render(), [
+                '# HELP test_total A test counter.',
+                '# TYPE test_total counter',
+                'test_total{mode="sub\\"scribe"} 3',
+                '# HELP test_seconds A test histogram.',
+                '# TYPE test_seconds histogram',
+                'test_seconds_bucket{le="0.1"} 1',
+                'test_seconds_bucket{le="1"} 2',
+                'test_seconds_bucket{le="+Inf"} 3',
+                'test_seconds_sum 5.55',
+                'test_seconds_count 3',
+                ''
+            ].join('\n'));
+        });
+
+        it('Records verifications, failures and notifications, and serves them', async function () {
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                metrics: {endpoint: true}
+            });
+            await persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: false,
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+
+            try {
+                let subscribed = new Promise((resolve) => manager.on('subscribed', resolve));
+                let topic = encodeURIComponent('https://api.twitch.tv/helix/users/follows?first=1&to_id=1');
+                await manager.handleRequest({
+                    method: 'GET',
+                    url: `/webhooks/follows?hub.mode=subscribe&hub.topic=${topic}&hub.lease_seconds=864000&hub.challenge=challenge`,
+                    headers: {},
+                    body: Buffer.alloc(0)
+                });
+                await subscribed;
+
+                let body = JSON.stringify({data: [{from_id: '2', to_id: '1', followed_at: '2020-07-15T18:16:11.171Z'}]});
+                let message = new Promise((resolve) => manager.on('message', resolve));
+                for (let secret of ['secret', 'wrong']) {
+                    await manager.handleRequest({
+                        method: 'POST',
+                        url: '/webhooks/follows?first=1&to_id=1',
+                        headers: {'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex')},
+                        body: Buffer.from(body)
+                    });
+                }
+                await message;
+
+                let response = await manager.handleRequest({
+                    method: 'GET',
+                    url: '/webhooks/_metrics',
+                    headers: {},
+                    body: Buffer.alloc(0)
+                });
+                assert.strictEqual(response.status, 200);
+                let lines = (<string>response.body).split('\n');
+                assert.ok(lines.indexOf('twitch_webhooks_verification_challenges_total{mode="subscribe"} 1') !== -1);
+                assert.ok(lines.indexOf('twitch_webhooks_verification_failures_total{reason="mismatch"} 1') !== -1);
+                assert.ok(lines.indexOf('twitch_webhooks_notifications_total{type="UserFollows"} 1') !== -1);
+                assert.ok(lines.indexOf('twitch_webhooks_active_subscriptions{manager="http://localhost/webhooks"} 1') !== -1);
+                assert.ok(lines.some(line => line.indexOf('twitch_webhooks_next_expiry_seconds{manager="http://localhost/webhooks"} 86') === 0));
+            } finally {
+                await manager.destroy();
+            }
+        });
+
+        it('Counts renewals by reason', async function () {
+            let manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                hubUrl: 'http://localhost:1/hub',
+                retryPolicy: {maxAttempts: 1}
+            });
+            let webhook: WebhookPersistenceObject = {
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: true,
+                secret: 'secret',
+                leaseSeconds: 864000
+            };
+
+            try {
+                //Nothing listens on the hub URL, so every renewal fails.
+                await assert.rejects(manager.resubscribePersistenceObject(webhook));
+                await assert.rejects(manager.resubscribePersistenceObject(webhook, 'admin'));
+                assert.strictEqual(manager.metrics.renewals.get({reason: 'scheduled', outcome: 'failure'}), 1);
+                assert.strictEqual(manager.metrics.renewals.get({reason: 'admin', outcome: 'failure'}), 1);
+                assert.strictEqual(manager.metrics.renewals.get({reason: 'reconciliation', outcome: 'failure'}), 0);
+            } finally {
+                await manager.destroy();
+            }
+        });
+
+        it('Collects the gauges of every manager sharing a registry', async function () {
+            let registry = new MetricsRegistry();
+            let managers = ['first', 'second'].map(basePath => new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: basePath,
+                metrics: {registry: registry}
+            }));
+            await managers[1].config.persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: true,
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+
+            let lines = (await registry.render()).split('\n');
+            assert.ok(lines.indexOf('twitch_webhooks_active_subscriptions{manager="http://localhost/first"} 0') !== -1);
+            assert.ok(lines.indexOf('twitch_webhooks_active_subscriptions{manager="http://localhost/second"} 1') !== -1);
+
+            await managers[1].destroy();
+            lines = (await registry.render()).split('\n');
+            assert.ok(lines.indexOf('twitch_webhooks_active_subscriptions{manager="http://localhost/first"} 0') !== -1);
+            assert.ok(!lines.some(line => line.indexOf('manager="http://localhost/second"') !== -1));
+            await managers[0].destroy();
+        });
+    });
+
+    describe('Notification Journal', function () {
+        let journalPath = path.join(os.tmpdir(), `twitch-webhooks-journal-${process.pid}.jsonl`);
+        let persistenceManager: MemoryBasedTwitchWebhookPersistenceManager;
+        let manager: TwitchWebhookManager;
+
+        let sendFollow = async (notificationId: string, fromId: string) => {
+            let body = JSON.stringify({data: [{from_id: fromId, to_id: '1', followed_at: '2020-07-15T18:16:11.171Z'}]});
+            return manager.handleRequest({
+                method: 'POST',
+                url: '/webhooks/follows?first=1&to_id=1',
+                headers: {
+                    'X-Hub-Signature': 'sha256=' + crypto.createHmac('sha256', 'secret').update(body).digest('hex'),
+                    'Twitch-Notification-Id': notificationId
+                },
+                body: Buffer.from(body)
+            });
+        };
+
+        beforeEach(async function () {
+            persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                journal: new JsonlNotificationJournalStore(journalPath)
+            });
+            await persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: true,
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+        });
+
+        afterEach(async function () {
+            await manager.destroy();
+            if (fs.existsSync(journalPath)) {
+                fs.unlinkSync(journalPath);
+            }
+        });
+
+        it('Journals verified notifications before responding', async function () {
+            let response = await sendFollow('n1', '2');
+            assert.strictEqual(response.status, 200);
+
+            let lines = fs.readFileSync(journalPath, 'utf8').split('\n').filter(x => x);
+            assert.strictEqual(lines.length, 1);
+            let entry = JSON.parse(lines[0]);
+            assert.strictEqual(entry.webhookId, 'follows?first=1&to_id=1');
+            assert.strictEqual(entry.notificationId, 'n1');
+            assert.strictEqual(entry.transport, WebhookTransport.WebSub);
+        });
+
+        it('Replays journaled notifications through the events, once per notification id', async function () {
+            let payloads: WebhookPayload<WebhookType.UserFollows>[] = [];
+            manager.on('userFollows', (_, payload) => payloads.push(payload));
+            await sendFollow('n1', '2');
+            await sendFollow('n1', '2');
+            await sendFollow('n2', '3');
+            //Live notifications are dispatched after the response.
+            await new Promise(resolve => setImmediate(resolve));
+            assert.ok(payloads.length > 0 && payloads.every(x => !x.replayed));
+
+            assert.strictEqual(await manager.replay({types: [WebhookType.UserFollows]}), 2);
+            let replayed = payloads.filter(x => x.replayed);
+            assert.deepStrictEqual(replayed.map(x => x.data.from_id), ['2', '3']);
+            assert.deepStrictEqual(replayed.map(x => x.notificationId), ['n1', 'n2']);
+            assert.deepEqual(replayed[0].subParams, {to_id: '1', from_id: undefined});
+
+            assert.strictEqual(await manager.replay({types: [WebhookType.StreamChanged]}), 0);
+            assert.strictEqual(await manager.replay({to: new Date(Date.now() - 60000)}), 0);
+            assert.strictEqual(await manager.replay({from: new Date(Date.now() - 60000)}), 2);
+        });
+
+        it('Validates replayed notifications like live ones', async function () {
+            let replayed: WebhookPayload<WebhookType.UserFollows>[] = [];
+            let errors: Error[] = [];
+            await sendFollow('n1', '2');
+            await new Promise(resolve => setImmediate(resolve));
+            manager.config.payloadValidation = 'strict';
+            manager.on('userFollows', (_, payload) => replayed.push(payload));
+            manager.on('error', (e) => errors.push(e));
+
+            assert.strictEqual(await manager.replay({}), 1);
+            assert.deepStrictEqual(replayed, []);
+            assert.strictEqual((<any>errors[0]).path, 'data.from_name');
+        });
+    });
+
+    describe('Message Streams', function () {
+        let manager: TwitchWebhookManager;
+
+        let dispatchFollow = (fromId: string) => manager.requestHandler.dispatch('follows?first=1&to_id=1', {
+            type: WebhookType.UserFollows,
+            data: {from_id: fromId, from_name: 'from', to_id: '1', to_name: 'to', followed_at: new Date()},
+            subParams: {to_id: '1'}
+        });
+
+        beforeEach(function () {
+            manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth'
+            });
+        });
+
+        afterEach(async function () {
+            await manager.destroy();
+        });
+
+        it('Iterates over matching payloads, and stops listening when the loop exits', async function () {
+            let fromIds: string[] = [];
+            let consumed = (async () => {
+                for await (let payload of manager.messages({types: [WebhookType.UserFollows]})) {
+                    fromIds.push(payload.data.from_id);
+                    if (fromIds.length === 2) {
+                        break;
+                    }
+                }
+            })();
+
+            dispatchFollow('2');
+            manager.requestHandler.dispatch('streams?user_id=1', {type: WebhookType.StreamChanged, data: [], subParams: {user_id: '1'}});
+            dispatchFollow('3');
+            await consumed;
+
+            assert.deepStrictEqual(fromIds, ['2', '3']);
+            assert.strictEqual(manager.listenerCount('message'), 0);
+        });
+
+        it('Applies the overflow policy when the buffer is full', async function () {
+            let fill = (overflow: OverflowPolicy) => {
+                let stream = manager.messages({types: [WebhookType.UserFollows], bufferSize: 2, overflow: overflow});
+                ['1', '2', '3'].forEach(dispatchFollow);
+                return stream;
+            };
+            let drain = async (overflow: OverflowPolicy) => {
+                let stream = fill(overflow);
+                stream.close();
+                let fromIds: string[] = [];
+                for await (let payload of stream) {
+                    fromIds.push(payload.data.from_id);
+                }
+                assert.strictEqual(stream.dropped, 1);
+                return fromIds;
+            };
+
+            assert.deepStrictEqual(await drain('drop-oldest'), ['2', '3']);
+            assert.deepStrictEqual(await drain('drop-newest'), ['1', '2']);
+
+            let stream = fill('error');
+            assert.strictEqual((await stream.next()).value.data.from_id, '1');
+            assert.strictEqual((await stream.next()).value.data.from_id, '2');
+            await assert.rejects(stream.next(), (e: any) => e.bufferSize === 2);
+            assert.strictEqual((await stream.next()).done, true);
+            assert.strictEqual(manager.listenerCount('message'), 0);
+        });
+
+        it('Provides an object-mode Readable', async function () {
+            let readable = manager.messageStream({types: [WebhookType.UserFollows]});
+            let fromIds: string[] = [];
+            let ended = new Promise((resolve) => readable.on('close', resolve));
+            readable.on('data', (payload: WebhookPayload<WebhookType.UserFollows>) => {
+                fromIds.push(payload.data.from_id);
+                if (fromIds.length === 2) {
+                    readable.destroy();
+                }
+            });
+
+            dispatchFollow('2');
+            dispatchFollow('3');
+            await ended;
+            assert.deepStrictEqual(fromIds, ['2', '3']);
+            assert.strictEqual(manager.listenerCount('message'), 0);
+        });
+    });
+
+    describe('Registered Handlers', function () {
+        let manager: TwitchWebhookManager;
+        let retryPolicy = {maxAttempts: 3, baseDelay: 1, maxDelay: 5};
+
+        let dispatchFollow = (fromId: string) => manager.requestHandler.dispatch('follows?first=1&to_id=1', {
+            type: WebhookType.UserFollows,
+            data: {from_id: fromId, from_name: 'from', to_id: '1', to_name: 'to', followed_at: new Date()},
+            subParams: {to_id: '1'}
+        });
+
+        beforeEach(function () {
+            manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth'
+            });
+        });
+
+        afterEach(async function () {
+            await manager.destroy();
+        });
+
+        it('Retries a handler that rejects until it succeeds', async function () {
+            let attempts = 0;
+            let handled = new Promise((resolve) => {
+                manager.registerHandler('follows', async (payload) => {
+                    attempts++;
+                    if (attempts < 3) {
+                        throw new Error('Database unavailable');
+                    }
+                    resolve(payload.data.from_id);
+                }, {types: [WebhookType.UserFollows], retryPolicy: retryPolicy});
+            });
+
+            dispatchFollow('2');
+            assert.strictEqual(await handled, '2');
+            assert.strictEqual(attempts, 3);
+            assert.deepStrictEqual(await manager.listDeadLetters(), []);
+        });
+
+        it('Moves payloads to the dead-letter store, and retries and purges them', async function () {
+            let failing = true;
+            let handled: string[] = [];
+            manager.registerHandler('follows', (payload: WebhookPayload<WebhookType.UserFollows>) => {
+                if (failing) {
+                    throw new Error('Database unavailable');
+                }
+                handled.push(payload.data.from_id);
+            }, {retryPolicy: retryPolicy});
+
+            let deadLettered = new Promise((resolve) => manager.on('deadLettered', resolve));
+            dispatchFollow('2');
+            await deadLettered;
+            deadLettered = new Promise((resolve) => manager.on('deadLettered', resolve));
+            dispatchFollow('3');
+            await deadLettered;
+
+            let deadLetters = await manager.listDeadLetters();
+            assert.strictEqual(deadLetters.length, 2);
+            assert.strictEqual(deadLetters[0].handler, 'follows');
+            assert.strictEqual(deadLetters[0].webhookId, 'follows?first=1&to_id=1');
+            assert.strictEqual(deadLetters[0].attempts, 3);
+            assert.strictEqual(deadLetters[0].error.message, 'Database unavailable');
+
+            failing = false;
+            assert.strictEqual(await manager.retryDeadLetter(deadLetters[0].id), true);
+            assert.deepStrictEqual(handled, ['2']);
+            assert.strictEqual(await manager.purgeDeadLetters(), 1);
+            assert.deepStrictEqual(await manager.listDeadLetters(), []);
+            await assert.rejects(manager.retryDeadLetter(deadLetters[1].id));
+        });
+
+        it('Dead-letters payloads waiting for a retry before destroying the dead-letter store', async function () {
+            let events: string[] = [];
+            let deadLetterStore = new MemoryDeadLetterStore();
+            deadLetterStore.add = async (deadLetter: DeadLetter) => {
+                events.push('add ' + deadLetter.attempts);
+                deadLetterStore.deadLetters.set(deadLetter.id, deadLetter);
+            };
+            deadLetterStore.destroy = async () => {
+                events.push('destroy');
+            };
+            let destroyedManager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                deadLetterStore: deadLetterStore
+            });
+            let failed = new Promise((resolve) => {
+                destroyedManager.registerHandler('follows', async () => {
+                    events.push('handle');
+                    resolve();
+                    throw new Error('Database unavailable');
+                }, {retryPolicy: {maxAttempts: 3, baseDelay: 60000, maxDelay: 60000}});
+            });
+
+            destroyedManager.requestHandler.dispatch('follows?first=1&to_id=1', {
+                type: WebhookType.UserFollows,
+                data: {from_id: '2', from_name: 'from', to_id: '1', to_name: 'to', followed_at: new Date()},
+                subParams: {to_id: '1'}
+            });
+            await failed;
+            await destroyedManager.destroy();
+            assert.deepStrictEqual(events, ['handle', 'add 1', 'destroy']);
+        });
+    });
+
+    describe('Stream Lifecycle', function () {
+        let statePath = path.join(os.tmpdir(), `twitch-webhooks-streams-${process.pid}.json`);
+        let managers: TwitchWebhookManager[] = [];
+
+        let createManager = () => {
+            let manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                streamStateStore: new FileStreamStateStore(statePath)
+            });
+            managers.push(manager);
+            return manager;
+        };
+        let streamChanged = (stream?: { title: string, game_id: string }): WebhookPayload<WebhookType.StreamChanged> => ({
+            type: WebhookType.StreamChanged,
+            data: stream ? Object.assign({
+                id: '100',
+                user_id: '1',
+                user_name: 'streamer',
+                community_ids: [],
+                type: 'live',
+                viewer_count: 10,
+                started_at: new Date('2020-07-15T18:00:00.000Z'),
+                language: 'en',
+                thumbnail_url: ''
+            }, stream) : undefined,
+            subParams: {user_id: '1'}
+        });
+
+        afterEach(async function () {
+            for (let manager of managers.splice(0)) {
+                await manager.destroy();
+            }
+            if (fs.existsSync(statePath)) {
+                fs.unlinkSync(statePath);
+            }
+        });
+
+        it('Emits lifecycle events with the previous and current values', async function () {
+            let manager = createManager();
+            let events: any[] = [];
+            for (let event of ['streamOnline', 'streamOffline', 'streamTitleChanged', 'streamGameChanged']) {
+                manager.on(<any>event, (_: WebhookId, change: any) => events.push([event, change.previous && (change.previous.title || change.previous), change.current.title || change.current]));
+            }
+
+            let webhookId = 'stream_changed?user_id=1';
+            await manager.streamLifecycle.handle(webhookId, streamChanged({title: 'Speedruns', game_id: '1'}));
+            await manager.streamLifecycle.handle(webhookId, streamChanged({title: 'Speedruns', game_id: '1'}));
+            await manager.streamLifecycle.handle(webhookId, streamChanged({title: 'Any%', game_id: '1'}));
+            await manager.streamLifecycle.handle(webhookId, streamChanged({title: 'Any%', game_id: '2'}));
+            await manager.streamLifecycle.handle(webhookId, streamChanged());
+            await manager.streamLifecycle.handle(webhookId, streamChanged());
+
+            assert.deepStrictEqual(events, [
+                ['streamOnline', undefined, 'Speedruns'],
+                ['streamTitleChanged', 'Speedruns', 'Any%'],
+                ['streamGameChanged', '1', '2'],
+                ['streamOffline', 'Any%', 'Any%']
+            ]);
+        });
+
+        it('Keeps the stream state across restarts', async function () {
+            let manager = createManager();
+            await manager.streamLifecycle.handle('stream_changed?user_id=1', streamChanged({title: 'Speedruns', game_id: '1'}));
+            await manager.destroy();
+
+            let restarted = createManager();
+            let titleChanged = new Promise<any>((resolve) => restarted.on('streamTitleChanged', (_, change) => resolve(change)));
+            restarted.on('streamOnline', () => assert.fail('The stream was already online'));
+            restarted.requestHandler.dispatch('stream_changed?user_id=1', streamChanged({title: 'Any%', game_id: '1'}));
+
+            assert.deepStrictEqual(await titleChanged, {userId: '1', previous: 'Speedruns', current: 'Any%'});
+        });
+    });
+
+    describe('OAuth Token Provider', function () {
+        const tokenPort = 3084;
+        let tokenServer: http.Server;
+        let tokenRequests: { [key: string]: string }[] = [];
+        let expiresIn = 3600;
+
+        before(async function () {
+            tokenServer = http.createServer((req, res) => {
+                let body = '';
+                req.on('data', (chunk) => body += chunk);
+                req.on('end', () => {
+                    let form = new URLSearchParams(body);
+                    let request: { [key: string]: string } = {};
+                    form.forEach((value, key) => request[key] = value);
+                    tokenRequests.push(request);
+                    res.setHeader('Content-Type', 'application/json');
+                    if (request.client_secret !== 'client_secret' || request.refresh_token === 'revoked') {
+                        res.statusCode = 400;
+                        res.end(JSON.stringify({status: 400, message: 'Invalid refresh token'}));
+                        return;
+                    }
+                    res.end(JSON.stringify({
+                        access_token: `token${tokenRequests.length}`,
+                        refresh_token: request.grant_type === 'refresh_token' ? `refresh${tokenRequests.length}` : undefined,
+                        expires_in: expiresIn,
+                        token_type: 'bearer'
+                    }));
+                });
+            });
+            await new Promise((resolve) => tokenServer.listen(tokenPort, resolve));
+        });
+
+        beforeEach(function () {
+            tokenRequests = [];
+            expiresIn = 3600;
+        });
+
+        after(async function () {
+            await new Promise((resolve) => tokenServer.close(resolve));
+        });
+
+        let createProvider = (refreshTokens: { [userId: string]: string } = {}) => new TwitchOAuthTokenProvider({
+            clientId: 'test_client_id',
+            clientSecret: 'client_secret',
+            refreshTokenStore: new MemoryRefreshTokenStore(refreshTokens),
+            tokenUrl: `http://localhost:${tokenPort}/oauth2/token`
+        });
+
+        it('Caches app access tokens until they expire', async function () {
+            let provider = createProvider();
+            assert.strictEqual(await provider.getOAuthToken(), 'token1');
+            assert.strictEqual(await provider.getOAuthToken(), 'token1');
+            assert.strictEqual(tokenRequests.length, 1);
+            assert.strictEqual(tokenRequests[0].grant_type, 'client_credentials');
+
+            expiresIn = 30;
+            assert.strictEqual(await provider.refreshOAuthToken('token1'), 'token2');
+            //Expires within the margin, so it isn't cached.
+            assert.strictEqual(await provider.getOAuthToken(), 'token3');
+        });
+
+        it('Refreshes user tokens once for concurrent refreshes, and stores the rotated refresh token', async function () {
+            let provider = createProvider({'1': 'refresh', '2': 'revoked'});
+            let token = await provider.getOAuthToken('1');
+            assert.strictEqual(token, 'token1');
+            assert.deepStrictEqual(tokenRequests[0], {client_id: 'test_client_id', client_secret: 'client_secret', grant_type: 'refresh_token', refresh_token: 'refresh'});
+
+            let refreshed = await Promise.all([provider.refreshOAuthToken(token), provider.refreshOAuthToken(token), provider.refreshOAuthToken(token)]);
+            assert.deepStrictEqual(refreshed, ['token2', 'token2', 'token2']);
+            assert.strictEqual(tokenRequests.length, 2);
+            assert.strictEqual(tokenRequests[1].refresh_token, 'refresh1');
+            assert.strictEqual(await provider.refreshTokenStore.get('1'), 'refresh2');
+
+            await assert.rejects(provider.getOAuthToken('2'), (e: any) => e.statusCode === 400);
+            await assert.rejects(provider.getOAuthToken('3'), /No refresh token is stored for user 3/);
+        });
+
+        it('Only keeps track of the current and the replaced token of each user', async function () {
+            let provider = createProvider({'1': 'refresh'});
+            let token = await provider.getOAuthToken('1');
+            for (let i = 0; i < 3; i++) {
+                token = await provider.refreshOAuthToken(token);
+            }
+            assert.strictEqual(token, 'token4');
+            assert.deepStrictEqual(Array.from((<any>provider).issued.keys()), ['token3', 'token4']);
+            //A request rejected with the replaced token gets the current one.
+            assert.strictEqual(await provider.refreshOAuthToken('token3'), 'token4');
+            assert.strictEqual(tokenRequests.length, 4);
+        });
+
+        it('Is used by the manager in place of the token callbacks', async function () {
+            let manager = new TwitchWebhookManager({
+                hostname: 'http://localhost',
+                client_id: 'test_client_id',
+                tokenProvider: createProvider()
+            });
+            try {
+                assert.strictEqual(await manager.config.getOAuthToken(), 'token1');
+                assert.strictEqual(await manager.config.refreshOAuthToken('token1'), 'token2');
+            } finally {
+                await manager.destroy();
+            }
+            assert.throws(() => new TwitchWebhookManager({hostname: 'http://localhost', client_id: 'test_client_id'}));
+        });
+    });
+
+    describe('EventSub', function () {
+        const eventSubPort = 3081;
+
+        function signEventSub(secret: string, messageId: string, timestamp: string, body: string): string {
+            return 'sha256=' + crypto.createHmac('sha256', secret).update(messageId + timestamp + body).digest('hex');
+        }
+
+        it('Accepts a valid signature and rejects a tampered body', function () {
+            let body = '{"subscription":{},"event":{}}';
+            let signature = signEventSub('secret', 'id', '2020-07-15T18:16:11.17106713Z', body);
+
+            assert.ok(verifyEventSubSignature('secret', 'id', '2020-07-15T18:16:11.17106713Z', Buffer.from(body), signature));
+            assert.ok(!verifyEventSubSignature('secret', 'id', '2020-07-15T18:16:11.17106713Z', Buffer.from(body + ' '), signature));
+            assert.ok(!verifyEventSubSignature('other', 'id', '2020-07-15T18:16:11.17106713Z', Buffer.from(body), signature));
+        });
+
+        it('Converts follow notifications to the WebSub payload format', function () {
+            let data = convertEventSubEvent('id', '2020-07-15T18:16:11.17106713Z', {
+                subscription: {
+                    id: 'sub',
+                    status: 'enabled',
+                    type: 'channel.follow',
+                    version: '1',
+                    condition: {broadcaster_user_id: '1'},
+                    created_at: '2020-07-15T18:16:11.17106713Z'
+                },
+                event: {
+                    user_id: '2',
+                    user_login: 'test_follower',
+                    user_name: 'Test_Follower',
+                    broadcaster_user_id: '1',
+                    broadcaster_user_login: 'test_user',
+                    broadcaster_user_name: 'Test_User',
+                    followed_at: '2020-07-15T18:16:11.17106713Z'
+                }
+            });
+
+            assert.deepStrictEqual(data, {
+                from_id: '2',
+                from_name: 'Test_Follower',
+                to_id: '1',
+                to_name: 'Test_User',
+                followed_at: new Date('2020-07-15T18:16:11.171Z')
+            });
+        });
+
+        it('Answers the webhook_callback_verification challenge', async function () {
+            const app = express();
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let manager = new TwitchWebhookManager({
+                hostname: `http://localhost:${eventSubPort}`,
+                app,
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                transport: WebhookTransport.EventSub
+            });
+            let server = await new Promise<http.Server>((resolve) => {
+                let s: http.Server = app.listen(eventSubPort, () => resolve(s));
+            });
+
+            try {
+                await persistenceManager.persistWebhook({
+                    id: 'follows?first=1&to_id=1',
+                    type: WebhookType.UserFollows,
+                    href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                    subscribed: false,
+                    secret: 'secret',
+                    leaseSeconds: 864000,
+                    transport: WebhookTransport.EventSub
+                });
+
+                let subscribed = new Promise((resolve) => manager.on('subscribed', resolve));
+                let body = JSON.stringify({
+                    challenge: 'pogchamp-kappa-360noscope-vohiyo',
+                    subscription: {id: 'sub', status: 'webhook_callback_verification_pending', type: 'channel.follow'}
+                });
+                let timestamp = new Date().toISOString();
+                let resp = await got.post(`http://localhost:${eventSubPort}/webhooks/follows?first=1&to_id=1`, {
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Twitch-Eventsub-Message-Id': 'message',
+                        'Twitch-Eventsub-Message-Timestamp': timestamp,
+                        'Twitch-Eventsub-Message-Type': 'webhook_callback_verification',
+                        'Twitch-Eventsub-Message-Signature': signEventSub('secret', 'message', timestamp, body)
+                    },
+                    body: body
+                });
+
+                assert.strictEqual(resp.body, 'pogchamp-kappa-360noscope-vohiyo');
+                assert.strictEqual(await subscribed, 'follows?first=1&to_id=1');
+                let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById('follows?first=1&to_id=1');
+                assert.ok(webhook.subscribed);
+                assert.deepStrictEqual(webhook.eventSubIds, ['sub']);
+            } finally {
+                await manager.destroy();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+        it('Schedules a multi-topic webhook once if it is verified while its subscriptions are still being created', async function () {
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let renewalScheduler = new BasicWebhookRenewalScheduler();
+            let scheduled = 0;
+            let addToScheduler = renewalScheduler.addToScheduler.bind(renewalScheduler);
+            renewalScheduler.addToScheduler = (webhook) => {
+                scheduled++;
+                addToScheduler(webhook);
+            };
+            let manager = new TwitchWebhookManager({
+                hostname: `http://localhost:${eventSubPort}`,
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                renewalScheduler: renewalScheduler,
+                eventSubUrl: `http://localhost:${eventSubPort}/eventsub/subscriptions`,
+                transport: WebhookTransport.EventSub
+            });
+            let created = 0;
+            //Answers the verification of the first subscription before twitch responds to its creation.
+            let server = http.createServer(async (req, res) => {
+                let id = `sub${++created}`;
+                if (created === 1) {
+                    let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById('stream_changed?user_id=1');
+                    let subscribed = new Promise((resolve) => manager.on('subscribed', resolve));
+                    let body = JSON.stringify({
+                        challenge: 'challenge',
+                        subscription: {id: id, status: 'webhook_callback_verification_pending', type: 'stream.online'}
+                    });
+                    let timestamp = new Date().toISOString();
+                    await manager.handleRequest({
+                        method: 'POST',
+                        url: '/webhooks/stream_changed?user_id=1',
+                        headers: {
+                            'Twitch-Eventsub-Message-Id': 'message',
+                            'Twitch-Eventsub-Message-Timestamp': timestamp,
+                            'Twitch-Eventsub-Message-Type': 'webhook_callback_verification',
+                            'Twitch-Eventsub-Message-Signature': signEventSub(webhook.secret, 'message', timestamp, body)
+                        },
+                        body: Buffer.from(body)
+                    });
+                    await subscribed;
+                }
+                res.statusCode = 202;
+                res.end(JSON.stringify({data: [{id: id}]}));
+            });
+            await new Promise((resolve) => server.listen(eventSubPort, resolve));
+
+            try {
+                await manager.addStreamChangedSubscription({}, {user_id: '1'});
+                let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById('stream_changed?user_id=1');
+                assert.ok(webhook.subscribed);
+                assert.deepStrictEqual(webhook.eventSubIds, ['sub1', 'sub2']);
+                assert.strictEqual(scheduled, 1);
+            } finally {
+                await manager.destroy();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+
+        it('Fails with the status when twitch does not create a subscription', async function () {
+            let server = http.createServer((req, res) => {
+                res.statusCode = 404;
+                res.end(JSON.stringify({error: 'Not Found', status: 404, message: 'user not found'}));
+            });
+            await new Promise((resolve) => server.listen(eventSubPort, resolve));
+            let manager = new TwitchWebhookManager({
+                hostname: `http://localhost:${eventSubPort}`,
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                eventSubUrl: `http://localhost:${eventSubPort}/eventsub/subscriptions`,
+                transport: WebhookTransport.EventSub,
+                retryPolicy: {maxAttempts: 1}
+            });
+
+            try {
+                await assert.rejects(manager.addUserFollowsSubscription({}, {to_id: '1'}), (e: any) =>
+                    e.statusCode === 404 && e.message === 'Failed to create EventSub subscription channel.follow for follows?first=1&to_id=1 (404): user not found');
+            } finally {
+                await manager.destroy();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+
+        it('Removes revoked webhooks, along with their other subscriptions', async function () {
+            let requests: string[] = [];
+            let server = http.createServer((req, res) => {
+                requests.push(`${req.method} ${new URL(<string>req.url, 'http://localhost').searchParams.get('id')}`);
+                res.statusCode = 204;
+                res.end();
+            });
+            await new Promise((resolve) => server.listen(eventSubPort, resolve));
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let renewalScheduler = new BasicWebhookRenewalScheduler();
+            let manager = new TwitchWebhookManager({
+                hostname: `http://localhost:${eventSubPort}`,
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                renewalScheduler: renewalScheduler,
+                eventSubUrl: `http://localhost:${eventSubPort}/eventsub/subscriptions`
+            });
+
+            try {
+                let webhook: WebhookPersistenceObject = {
+                    id: 'stream_changed?user_id=1',
+                    type: WebhookType.StreamChanged,
+                    href: 'https://api.twitch.tv/helix/streams?user_id=1',
+                    subscribed: true,
+                    subscriptionStart: new Date(),
+                    subscriptionEnd: new Date(Date.now() + 864000 * 1000),
+                    secret: 'secret',
+                    leaseSeconds: 864000,
+                    transport: WebhookTransport.EventSub,
+                    eventSubIds: ['online', 'offline']
+                };
+                await persistenceManager.persistWebhook(webhook);
+                renewalScheduler.addToScheduler(webhook);
+
+                let revoked = new Promise<any[]>((resolve) => manager.on('revoked', (webhookId, reason) => resolve([webhookId, reason])));
+                let body = JSON.stringify({subscription: {id: 'online', status: 'authorization_revoked', type: 'stream.online'}});
+                let timestamp = new Date().toISOString();
+                let response = await manager.handleRequest({
+                    method: 'POST',
+                    url: '/webhooks/stream_changed?user_id=1',
+                    headers: {
+                        'Twitch-Eventsub-Message-Id': 'message',
+                        'Twitch-Eventsub-Message-Timestamp': timestamp,
+                        'Twitch-Eventsub-Message-Type': 'revocation',
+                        'Twitch-Eventsub-Message-Signature': signEventSub('secret', 'message', timestamp, body)
+                    },
+                    body: Buffer.from(body)
+                });
+
+                assert.strictEqual(response.status, 204);
+                assert.deepStrictEqual(await revoked, ['stream_changed?user_id=1', 'authorization_revoked']);
+                assert.deepStrictEqual(requests, ['DELETE offline']);
+                assert.strictEqual(renewalScheduler.getScheduledRenewal(webhook.id), undefined);
+                assert.strictEqual(await persistenceManager.getWebhookById(webhook.id), undefined);
+            } finally {
+                await manager.destroy();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+
+        it('Recreates deleted subscriptions with the old secret if rotating a secret fails', async function () {
+            let requests: string[] = [];
+            let server = http.createServer((req, res) => {
+                req.pipe(concat({encoding: 'buffer'}, (body: Buffer) => {
+                    if (req.method === 'DELETE') {
+                        requests.push(`DELETE ${new URL(<string>req.url, 'http://localhost').searchParams.get('id')}`);
+                        res.statusCode = 204;
+                        return res.end();
+                    }
+                    let secret = JSON.parse(body.toString('utf8')).transport.secret;
+                    requests.push(`POST ${secret}`);
+                    res.statusCode = secret === 'secret' ? 202 : 500;
+                    res.end(JSON.stringify(secret === 'secret' ? {data: [{id: 'recreated'}]} : {error: 'Internal Server Error', status: 500, message: ''}));
+                }));
+            });
+            await new Promise((resolve) => server.listen(eventSubPort, resolve));
+            let persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let manager = new TwitchWebhookManager({
+                hostname: `http://localhost:${eventSubPort}`,
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => 'oauth',
+                base_path: 'webhooks',
+                persistenceManager: persistenceManager,
+                eventSubUrl: `http://localhost:${eventSubPort}/eventsub/subscriptions`,
+                retryPolicy: {maxAttempts: 1}
+            });
+
+            try {
+                await persistenceManager.persistWebhook({
+                    id: 'follows?first=1&to_id=1',
+                    type: WebhookType.UserFollows,
+                    href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                    subscribed: true,
+                    subscriptionStart: new Date(),
+                    subscriptionEnd: new Date(Date.now() + 864000 * 1000),
+                    secret: 'secret',
+                    leaseSeconds: 864000,
+                    transport: WebhookTransport.EventSub,
+                    eventSubIds: ['old']
+                });
+
+                let managerSecret = manager.config.secret;
+                let result = await manager.rotateSecret({secret: 'new_secret'});
+                let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById('follows?first=1&to_id=1');
+                assert.deepStrictEqual(result.failed.map(x => x.webhookId), ['follows?first=1&to_id=1']);
+                assert.strictEqual(manager.config.secret, managerSecret);
+                assert.strictEqual(webhook.secret, 'secret');
+                assert.deepStrictEqual(webhook.eventSubIds, ['recreated']);
+                assert.deepStrictEqual(requests, [
+                    'DELETE old',
+                    `POST ${crypto.createHmac('sha256', 'new_secret').update(webhook.href).digest('hex')}`,
+                    'POST secret'
+                ]);
+            } finally {
+                await manager.destroy();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+    });
+
+    describe('CLI', function () {
+        let persistenceManager: MemoryBasedTwitchWebhookPersistenceManager;
+        let lines: string[];
+        let errors: string[];
+        let output: CliOutput = {
+            out: (line) => lines.push(line),
+            err: (line) => errors.push(line)
+        };
+
+        beforeEach(async function () {
+            lines = [];
+            errors = [];
+            persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            let now = Date.now();
+            await persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: true,
+                subscriptionStart: new Date(now),
+                subscriptionEnd: new Date(now + 2 * 60 * 60 * 1000),
+                secret: 'secret',
+                leaseSeconds: 7200
+            });
+            await persistenceManager.persistWebhook({
+                id: 'stream_changed?user_id=2',
+                type: WebhookType.StreamChanged,
+                href: 'https://api.twitch.tv/helix/streams?user_id=2',
+                subscribed: true,
+                subscriptionStart: new Date(now),
+                subscriptionEnd: new Date(now + 10 * 24 * 60 * 60 * 1000),
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+        });
+
+        it('Parses durations', function () {
+            assert.strictEqual(parseDuration('90'), 90 * 1000);
+            assert.strictEqual(parseDuration('30m'), 30 * 60 * 1000);
+            assert.strictEqual(parseDuration('24h'), 24 * 60 * 60 * 1000);
+            assert.strictEqual(parseDuration('7d'), 7 * 24 * 60 * 60 * 1000);
+            assert.strictEqual(parseDuration('soon'), undefined);
+        });
+
+        it('Lists webhooks with decoded parameters as JSON, without secrets', async function () {
+            assert.strictEqual(await runCommand({persistenceManager: persistenceManager}, ['list', '--json'], output), 0);
+            let webhooks = JSON.parse(lines.join('\n'));
+            assert.strictEqual(webhooks.length, 2);
+            assert.strictEqual(webhooks[0].type, 'UserFollows');
+            assert.deepStrictEqual(webhooks[0].params, {to_id: '1'});
+            assert.deepStrictEqual(webhooks[1].params, {user_id: '2'});
+            assert.ok(lines.join('\n').indexOf('secret') === -1);
+        });
+
+        it('Lists only webhooks expiring within the given duration', async function () {
+            assert.strictEqual(await runCommand({persistenceManager: persistenceManager}, ['expiring', '--within', '24h', '--json'], output), 0);
+            let webhooks = JSON.parse(lines.join('\n'));
+            assert.deepStrictEqual(webhooks.map((x: any) => x.id), ['follows?first=1&to_id=1']);
+        });
+
+        it('Fails for unknown webhooks, and for commands that need a manager without one', async function () {
+            assert.strictEqual(await runCommand({persistenceManager: persistenceManager}, ['show', 'follows?first=1&to_id=3'], output), 1);
+            assert.strictEqual(await runCommand({persistenceManager: persistenceManager}, ['frobnicate'], output), 2);
+            await assert.rejects(runCommand({persistenceManager: persistenceManager}, ['unsubscribe', 'follows?first=1&to_id=1'], output));
+        });
+    });
+
+    describe('Webhook Subscription/Unsubscription', function () {
+        let manager: TwitchWebhookManager | undefined;
+        let webhookServer: http.Server | undefined;
+        let persistenceManager: TwitchWebhookPersistenceManager | undefined;
+        let hub = new FakeTwitchHub();
+        let refreshedTokens = 0;
+
+        this.slow(5000);
+        this.timeout(15000);
+
+        before(async function () {
+            await hub.start(webhookHubPort);
+        });
+
+        beforeEach(function () {
+            const app = express();
+
+            persistenceManager = new MemoryBasedTwitchWebhookPersistenceManager();
+            manager = new TwitchWebhookManager({
+                hostname: webhookSubscriberUrl,
+                app,
+                client_id: 'test_client_id',
+                getOAuthToken: async (_) => 'oauth',
+                refreshOAuthToken: async (_) => {
+                    refreshedTokens++;
+                    return 'oauth';
+                },
+                base_path: 'webhooks',
+                hubUrl: webhookHubUrl,
+                webhookSubscriptionsUrl: webhookSubscriptionsUrl,
+                persistenceManager: persistenceManager,
+                /*logger: {
+                    info: ((message, ...args) => console.info('[INFO][TwitchWebhookManager] ' + message, ...args)),
+                    debug: ((message, ...args) => console.debug('[DEBUG][TwitchWebhookManager] ' + message, ...args)),
+                    error: ((message, ...args) => console.error('[ERROR][TwitchWebhookManager] ' + message, ...args))
+                }*/
+            });
+
+            return new Promise((resolve, _) => {
+                webhookServer = app.listen(webhookSubscriberPort, resolve);
+            });
+        });
+
+        afterEach(async function () {
+            hub.reset();
+            if (manager) {
+                await manager.destroy();
+            }
+            manager = undefined;
+            persistenceManager = undefined;
+            return new Promise((resolve, reject) => {
+                if (webhookServer) {
+                    webhookServer.close((e) => {
+                        webhookServer = undefined;
+                        if (e) {
+                            return reject(e);
+                        }
+                        return resolve();
+                    });
+                }
+            });
+        });
+
+        after(async function () {
+            await hub.stop();
+        });
+
+        it("Doesn't error when subscribing to each endpoint", async function () {
+            if (manager) {
+                await manager.addUserFollowsSubscription({}, {
+                    to_id: '1'
+                });
+                await manager.addStreamChangedSubscription({}, {
+                    user_id: '1'
+                });
+                await manager.addUserChangedSubscription({}, {
+                    user_id: '1'
+                });
+                await manager.addExtensionTransactionCreatedSubscription({}, {
+                    extension_id: '12'
+                });
+                await manager.addChannelBanChangedSubscription({}, {
+                    broadcaster_id: '1'
+                });
+                await manager.addModeratorChangedSubscription({}, {
+                    broadcaster_id: '1'
+                });
+                await manager.addSubscriptionSubscription({}, {
+                    broadcaster_id: '1'
+                });
+            } else {
+                throw new Error('Manager is undefined');
             }
         });
 
         it("Receives a message when it is emitted", async function () {
 
-            let followEvent: WebhookEvent<WebhookType.UserFollows> = {
+            let followEvent = {
                 type: WebhookType.UserFollows,
                 data: {
                     to_id: '1',
@@ -477,9 +2666,9 @@ describe('Twitch Webhooks', function () {
 
                     manager.on('message', (webhookId, payload) => {
                         try {
-                            if (payload.type != ThisProjectWebhookType.UserFollows) {
+                            if (payload.type != WebhookType.UserFollows) {
                                 // noinspection ExceptionCaughtLocallyJS
-                                throw new Error(`Expected type ${ThisProjectWebhookType.UserFollows}, but got ${payload.type}`);
+                                throw new Error(`Expected type ${WebhookType.UserFollows}, but got ${payload.type}`);
                             }
 
                             assert.deepStrictEqual(payload.data, followEvent.data);
@@ -497,7 +2686,8 @@ describe('Twitch Webhooks', function () {
                         if (subId !== id) {
                             reject(new Error("Got subscribed ID for a webhook that we didn't subscribe to!"));
                         }
-                        emitEvent(followEvent).catch(reject);
+                        hub.pushNotification('https://api.twitch.tv/helix/users/follows?first=1&to_id=1', [followEvent.data])
+                            .catch(reject);
                     });
 
                     let subId = await manager.addUserFollowsSubscription({}, {
@@ -547,6 +2737,293 @@ describe('Twitch Webhooks', function () {
             });
         });
 
+        it('Emits an error when the hub denies the subscription', async function () {
+            if (!manager || !persistenceManager) {
+                throw new Error('Manager is undefined');
+            }
+
+            let denied = new Promise<any>((resolve) => (<TwitchWebhookManager>manager).on('error', resolve));
+            hub.deny('unauthorized');
+            let subId = await manager.addUserFollowsSubscription({}, {
+                to_id: '1'
+            });
+
+            let e = await denied;
+            assert.strictEqual(e.reason, 'unauthorized');
+            assert.strictEqual(e.webhook.id, subId);
+            await new Promise((resolve) => setImmediate(resolve));
+            assert.strictEqual(await persistenceManager.getWebhookById(subId), undefined);
+        });
+
+        it('Refreshes the OAuth token when the hub responds with a 401', async function () {
+            if (!manager) {
+                throw new Error('Manager is undefined');
+            }
+
+            refreshedTokens = 0;
+            let subscribed = new Promise((resolve) => (<TwitchWebhookManager>manager).on('subscribed', resolve));
+            hub.failNextRequests(401);
+            let subId = await manager.addUserFollowsSubscription({}, {
+                to_id: '1'
+            });
+
+            assert.strictEqual(await subscribed, subId);
+            assert.strictEqual(refreshedTokens, 1);
+            assert.strictEqual(manager.metrics.hubRequests.get({mode: 'subscribe', status: '401'}), 1);
+            assert.strictEqual(manager.metrics.hubRequests.get({mode: 'subscribe', status: '202'}), 1);
+            assert.strictEqual(manager.metrics.hubRequestDuration.get({mode: 'subscribe'}).count, 2);
+        });
+
+        it('Retries the subscription after a 429', async function () {
+            if (!manager) {
+                throw new Error('Manager is undefined');
+            }
+
+            let subscribed = new Promise((resolve) => (<TwitchWebhookManager>manager).on('subscribed', resolve));
+            hub.failNextRequests(429);
+            let subId = await manager.addUserFollowsSubscription({}, {
+                to_id: '1'
+            });
+
+            assert.strictEqual(await subscribed, subId);
+        });
+
+        it("Uses the owning user's token for every hub call, including for webhooks persisted without a user", async function () {
+            if (!manager || !persistenceManager) {
+                throw new Error('Manager is undefined');
+            }
+
+            let userIds: (string | undefined)[] = [];
+            manager.config.getOAuthToken = async (userId) => {
+                userIds.push(userId);
+                return 'oauth';
+            };
+
+            let verified = new Promise((resolve) => hub.once('verified', resolve));
+            let subId = await manager.addSubscriptionSubscription({}, {broadcaster_id: '5'});
+            await verified;
+            assert.strictEqual((<WebhookPersistenceObject>await persistenceManager.getWebhookById(subId)).userId, '5');
+
+            await persistenceManager.persistWebhook({
+                id: 'moderator_change?broadcaster_id=7&first=1',
+                type: WebhookType.ModeratorChange,
+                href: 'https://api.twitch.tv/helix/moderation/moderators/events?broadcaster_id=7&first=1',
+                subscribed: true,
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+            await manager.init();
+            assert.strictEqual((<WebhookPersistenceObject>await persistenceManager.getWebhookById('moderator_change?broadcaster_id=7&first=1')).userId, '7');
+
+            verified = new Promise((resolve) => hub.once('verified', resolve));
+            await manager.resubscribe(subId);
+            await verified;
+            verified = new Promise((resolve) => hub.once('verified', resolve));
+            await manager.resubscribe('moderator_change?broadcaster_id=7&first=1');
+            await verified;
+            verified = new Promise((resolve) => hub.once('verified', resolve));
+            await manager.unsubscribe(subId);
+            await verified;
+            assert.deepStrictEqual(userIds, ['5', '5', '7', '5']);
+        });
+
+        it('Rotates secrets by resubscribing, and keeps the old secret if resubscribing fails', async function () {
+            if (!manager || !persistenceManager) {
+                throw new Error('Manager is undefined');
+            }
+
+            let topic = 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1';
+            let verified = new Promise((resolve) => hub.once('verified', resolve));
+            let webhookId = await manager.addUserFollowsSubscription({}, {to_id: '1'});
+            await verified;
+            let oldSecret = (<WebhookPersistenceObject>await persistenceManager.getWebhookById(webhookId)).secret;
+
+            let progress: SecretRotationProgress[] = [];
+            manager.on('secretRotationProgress', (x) => progress.push(x));
+            verified = new Promise((resolve) => hub.once('verified', resolve));
+            let result = await manager.rotateSecret({secret: 'new_secret', gracePeriodSeconds: 60});
+            let subscription = <FakeHubSubscription>await verified;
+
+            let newSecret = crypto.createHmac('sha256', 'new_secret').update(topic).digest('hex');
+            let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById(webhookId);
+            assert.deepStrictEqual(result, {rotated: [webhookId], failed: []});
+            assert.deepStrictEqual(progress, [{webhookId: webhookId, completed: 1, total: 1}]);
+            assert.strictEqual(manager.config.secret, 'new_secret');
+            assert.strictEqual(subscription.secret, newSecret);
+            assert.strictEqual(webhook.secret, newSecret);
+            assert.strictEqual(webhook.previousSecret, oldSecret);
+            assert.deepStrictEqual(await hub.pushNotification(topic, [{
+                from_id: '2',
+                from_name: 'test_follower',
+                to_id: '1',
+                to_name: 'test_user',
+                followed_at: new Date()
+            }]), [200]);
+
+            let failed = new Promise((resolve) => (<TwitchWebhookManager>manager).once('secretRotationFailed', (id) => resolve(id)));
+            manager.config.retryPolicy.maxAttempts = 1;
+            hub.failNextRequests(429);
+            result = await manager.rotateSecret({webhookIds: [webhookId], secret: 'other_secret'});
+
+            webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById(webhookId);
+            assert.deepStrictEqual(result.rotated, []);
+            assert.strictEqual(result.failed[0].webhookId, webhookId);
+            assert.strictEqual(await failed, webhookId);
+            assert.strictEqual(manager.config.secret, 'new_secret');
+            assert.strictEqual(webhook.secret, newSecret);
+            assert.strictEqual(webhook.previousSecret, oldSecret);
+        });
+
+        it('Subscribes to many webhooks, reporting failures per request', async function () {
+            if (!manager) {
+                throw new Error('Manager is undefined');
+            }
+
+            hub.deny('unauthorized', 'https://api.twitch.tv/helix/users/follows?first=1&to_id=2');
+            let results = await manager.subscribeMany([
+                {type: WebhookType.UserFollows, params: {to_id: '1'}},
+                {type: WebhookType.UserFollows, params: {to_id: '2'}},
+                {type: WebhookType.UserFollows, params: {}},
+                {type: WebhookType.StreamChanged, params: {user_id: '1'}, options: {leaseSeconds: 3600}}
+            ], {concurrency: 2, awaitVerification: true});
+
+            assert.deepStrictEqual(results.map(x => x.ok), [true, false, false, true]);
+            assert.deepStrictEqual(results.map(x => x.webhookId), ['follows?first=1&to_id=1', 'follows?first=1&to_id=2', undefined, 'stream_changed?user_id=1']);
+            assert.strictEqual((<any>results[0]).verified, true);
+            assert.strictEqual((<any>results[1]).error.reason, 'unauthorized');
+            assert.strictEqual((<any>results[2]).error.message, 'to_id or from_id (or both) must be specified!');
+            assert.strictEqual(manager.listenerCount('error'), 0);
+        });
+
+        it('Pauses bulk subscriptions while the rate limit bucket is empty', async function () {
+            if (!manager) {
+                throw new Error('Manager is undefined');
+            }
+
+            hub.failNextRequests(429);
+            let results = await manager.subscribeMany([1, 2, 3].map(id => ({
+                type: <WebhookType.StreamChanged>WebhookType.StreamChanged,
+                params: {user_id: `${id}`}
+            })), {concurrency: 3});
+
+            assert.ok(results.every(x => x.ok));
+            assert.ok(manager.rateLimitedUntil > 0);
+            assert.strictEqual(manager.metrics.hubRequests.get({mode: 'subscribe', status: '429'}), 1);
+            assert.strictEqual(manager.metrics.hubRequests.get({mode: 'subscribe', status: '202'}), 3);
+        });
+
+        it('Resubscribes to bulk subscriptions whose retries ran out on a 429', async function () {
+            if (!manager || !persistenceManager) {
+                throw new Error('Manager is undefined');
+            }
+
+            manager.config.retryPolicy.maxAttempts = 1;
+            hub.failNextRequests(429);
+            let results = await manager.subscribeMany([
+                {type: WebhookType.StreamChanged, params: {user_id: '1'}}
+            ], {awaitVerification: true});
+
+            assert.deepStrictEqual(results.map(x => [x.ok, x.webhookId]), [[true, 'stream_changed?user_id=1']]);
+            assert.strictEqual((<any>results[0]).verified, true);
+            assert.strictEqual((<WebhookPersistenceObject>await persistenceManager.getWebhookById('stream_changed?user_id=1')).subscribed, true);
+            assert.strictEqual(manager.metrics.hubRequests.get({mode: 'subscribe', status: '429'}), 1);
+            assert.strictEqual(manager.metrics.hubRequests.get({mode: 'subscribe', status: '202'}), 1);
+        });
+
+        it('Resubscribes to webhooks that are missing upstream when reconciling', async function () {
+            if (!manager || !persistenceManager) {
+                throw new Error('Manager is undefined');
+            }
+
+            let verified = new Promise((resolve) => hub.once('verified', resolve));
+            let subId = await manager.addUserFollowsSubscription({}, {
+                to_id: '1'
+            });
+            await verified;
+
+            //Simulate the lease running out while the service was down.
+            hub.reset();
+            let webhook = <WebhookPersistenceObject>await persistenceManager.getWebhookById(subId);
+            webhook.subscriptionEnd = new Date(Date.now() - 1000);
+            await persistenceManager.saveWebhook(webhook);
+
+            verified = new Promise((resolve) => hub.once('verified', resolve));
+            let report = await manager.reconcile();
+            assert.deepStrictEqual(report.resubscribed, [subId]);
+            assert.deepStrictEqual(report.expired, [subId]);
+            assert.deepStrictEqual(report.inSync, []);
+
+            await verified;
+            assert.strictEqual(hub.subscriptions.size, 1);
+            assert.deepStrictEqual((await manager.reconcile()).inSync, [subId]);
+        });
+
+        it('Leaves webhooks it failed to resubscribe to while reconciling to the renewal scheduler', async function () {
+            if (!manager || !persistenceManager) {
+                throw new Error('Manager is undefined');
+            }
+
+            let scheduler = new BasicWebhookRenewalScheduler();
+            scheduler.setResubscribeableObject(manager);
+            manager.config.renewalScheduler = scheduler;
+            manager.config.retryPolicy.maxAttempts = 1;
+            await persistenceManager.persistWebhook({
+                id: 'follows?first=1&to_id=1',
+                type: WebhookType.UserFollows,
+                href: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=1',
+                subscribed: true,
+                subscriptionStart: new Date(Date.now() - 20000),
+                subscriptionEnd: new Date(Date.now() - 10000),
+                secret: 'secret',
+                leaseSeconds: 864000
+            });
+
+            hub.failNextRequests(429);
+            let verified = new Promise((resolve) => hub.once('verified', resolve));
+            let report = await manager.reconcile();
+            assert.deepStrictEqual(report.failed.map(x => x.webhookId), ['follows?first=1&to_id=1']);
+
+            await verified;
+            assert.strictEqual((<WebhookPersistenceObject>await persistenceManager.getWebhookById('follows?first=1&to_id=1')).subscribed, true);
+        });
+
+        it('Reports and unsubscribes from orphaned subscriptions when reconciling', async function () {
+            if (!manager) {
+                throw new Error('Manager is undefined');
+            }
+
+            let verified = new Promise((resolve) => hub.once('verified', resolve));
+            let subId = await manager.addUserFollowsSubscription({}, {
+                to_id: '1'
+            });
+            await verified;
+
+            let orphanCallback = `${webhookSubscriberUrl}/webhooks/follows?first=1&to_id=2`;
+            for (let callback of [orphanCallback, 'http://elsewhere.example/webhooks/follows?first=1&to_id=2']) {
+                hub.subscriptions.set(callback, {
+                    callback: callback,
+                    topic: 'https://api.twitch.tv/helix/users/follows?first=1&to_id=2',
+                    leaseSeconds: 864000,
+                    expiresAt: new Date(Date.now() + 864000 * 1000)
+                });
+            }
+
+            let report = await manager.reconcile();
+            assert.deepStrictEqual(report.inSync, [subId]);
+            assert.deepStrictEqual(report.orphaned.map(x => x.callback), [orphanCallback]);
+            assert.deepStrictEqual(report.unsubscribedOrphans, []);
+
+            let unsubscribed = new Promise((resolve) => hub.on('verified', (subscription, mode) => {
+                if (mode === 'unsubscribe') {
+                    resolve(subscription.callback);
+                }
+            }));
+            report = await manager.reconcile({unsubscribeOrphans: true});
+            assert.deepStrictEqual(report.unsubscribedOrphans.map(x => x.callback), [orphanCallback]);
+            assert.strictEqual(await unsubscribed, orphanCallback);
+            assert.ok(!hub.subscriptions.has(orphanCallback));
+        });
+
         it('Allows multiple subscriptions to be made with the same parameters', async function () {
             if (manager) {
                 let subId = await manager.addUserFollowsSubscription({}, {
@@ -0,0 +1,187 @@
+/*
+* Built-in OAuth token provider.
+* Instead of implementing getOAuthToken and refreshOAuthToken, a TwitchOAuthTokenProvider can be passed as the
+* tokenProvider config property. It gets app access tokens through the client credentials flow, and user access tokens
+* through the refresh tokens in its RefreshTokenStore. Tokens are cached until they expire, and concurrent refreshes
+* of the same token share a single request.
+* */
+
+import got from 'got';
+import {createErrorFromResponse} from "./errors";
+
+const TWITCH_TOKEN_URL = "https://id.twitch.tv/oauth2/token";
+const APP_TOKEN_KEY = '';
+
+// Anything that can get and refresh OAuth tokens for the manager.
+interface OAuthTokenProvider {
+    // Returns a user access token for the user, or an app access token if userId is undefined.
+    getOAuthToken(userId?: string): Promise<string>;
+
+    // Returns a new token, to replace the one that was rejected.
+    refreshOAuthToken(failedToken: string): Promise<string>;
+}
+
+// Twitch rotates refresh tokens; The store is updated with the new refresh token after every refresh.
+interface RefreshTokenStore {
+    get(userId: string): Promise<string | undefined>;
+
+    set(userId: string, refreshToken: string): Promise<void>;
+}
+
+class MemoryRefreshTokenStore implements RefreshTokenStore {
+    refreshTokens: Map<string, string>;
+
+    constructor(refreshTokens: { [userId: string]: string } = {}) {
+        this.refreshTokens = new Map<string, string>(Object.keys(refreshTokens).map(userId => <[string, string]>[userId, refreshTokens[userId]]));
+    }
+
+    async get(userId: string): Promise<string | undefined> {
+        return this.refreshTokens.get(userId);
+    }
+
+    async set(userId: string, refreshToken: string): Promise<void> {
+        this.refreshTokens.set(userId, refreshToken);
+    }
+}
+
+type TokenProviderOptions = {
+    clientId: string,
+    clientSecret: string,
+    refreshTokenStore?: RefreshTokenStore, // Refresh tokens of the users whose tokens are needed. Defaults to an empty in-memory store (app tokens only).
+    tokenUrl?: string, // Configurable token URL - useful for testing with a local stand-in. Defaults to twitch's actual token URL
+    scopes?: string[], // Scopes requested for app access tokens
+    expiryMarginSeconds?: number // Cached tokens are renewed this many seconds before they expire. Defaults to 60.
+}
+
+type CachedToken = {
+    accessToken: string,
+    expiresAt?: number // Epoch milliseconds; Undefined if twitch didn't report an expiry
+}
+
+class TwitchOAuthTokenProvider implements OAuthTokenProvider {
+    readonly options: TokenProviderOptions;
+    readonly refreshTokenStore: RefreshTokenStore;
+    private cache: Map<string, CachedToken> = new Map<string, CachedToken>();
+    private inFlight: Map<string, Promise<CachedToken>> = new Map<string, Promise<CachedToken>>();
+    // Which user (or the app) each issued token belongs to, so a rejected token can be traced back.
+    private issued: Map<string, string> = new Map<string, string>();
+
+    constructor(options: TokenProviderOptions) {
+        this.options = options;
+        this.refreshTokenStore = options.refreshTokenStore || new MemoryRefreshTokenStore();
+    }
+
+    get tokenUrl(): string {
+        return this.options.tokenUrl || TWITCH_TOKEN_URL;
+    }
+
+    async getOAuthToken(userId?: string): Promise<string> {
+        let key = userId !== undefined ? userId : APP_TOKEN_KEY;
+        let cached = this.cache.get(key);
+        if (cached && this.isFresh(cached)) {
+            return cached.accessToken;
+        }
+        return (await this.fetch(key)).accessToken;
+    }
+
+    async refreshOAuthToken(failedToken: string): Promise<string> {
+        let key = this.issued.get(failedToken);
+        if (key === undefined) {
+            key = APP_TOKEN_KEY;
+        }
+
+        //Another request may already have replaced the token.
+        let cached = this.cache.get(key);
+        if (cached && cached.accessToken !== failedToken && this.isFresh(cached)) {
+            return cached.accessToken;
+        }
+        if (cached && cached.accessToken === failedToken) {
+            this.cache.delete(key);
+        }
+        return (await this.fetch(key)).accessToken;
+    }
+
+    private isFresh(token: CachedToken): boolean {
+        let margin = (this.options.expiryMarginSeconds !== undefined ? this.options.expiryMarginSeconds : 60) * 1000;
+        return token.expiresAt === undefined || token.expiresAt - margin > Date.now();
+    }
+
+    //Concurrent fetches for the same key share one request.
+    private fetch(key: string): Promise<CachedToken> {
+        let inFlight = this.inFlight.get(key);
+        if (inFlight) {
+            return inFlight;
+        }
+
+        let request = this.requestToken(key)
+            .then((token) => {
+                this.cache.set(key, token);
+                this.forgetOldTokens(key);
+                this.issued.set(token.accessToken, key);
+                return token;
+            });
+        let finished = () => {
+            this.inFlight.delete(key);
+        };
+        request.then(finished, finished);
+        this.inFlight.set(key, request);
+        return request;
+    }
+
+    //Only the token being replaced stays traceable, since requests that were rejected with it may still refresh it;
+    //Older tokens of the key are forgotten, so issued doesn't grow with every new token.
+    private forgetOldTokens(key: string): void {
+        let tokens = Array.from(this.issued.keys()).filter(token => this.issued.get(token) === key);
+        for (let token of tokens.slice(0, -1)) {
+            this.issued.delete(token);
+        }
+    }
+
+    private async requestToken(key: string): Promise<CachedToken> {
+        let form: { [key: string]: string } = {
+            client_id: this.options.clientId,
+            client_secret: this.options.clientSecret
+        };
+        if (key === APP_TOKEN_KEY) {
+            form.grant_type = 'client_credentials';
+            if (this.options.scopes && this.options.scopes.length > 0) {
+                form.scope = this.options.scopes.join(' ');
+            }
+        } else {
+            let refreshToken = await this.refreshTokenStore.get(key);
+            if (!refreshToken) {
+                throw new Error(`No refresh token is stored for user ${key}!`);
+            }
+            form.grant_type = 'refresh_token';
+            form.refresh_token = refreshToken;
+        }
+
+        let resp = await got.post(this.tokenUrl, {
+            form: form,
+            timeout: 10000,
+            retry: 0,
+            throwHttpErrors: false
+        });
+        if (Math.floor(resp.statusCode / 100) !== 2) {
+            throw createErrorFromResponse(resp, resp.body) || new Error('Unknown error when requesting an OAuth token: ' + resp.body);
+        }
+
+        let body = JSON.parse(resp.body);
+        if (key !== APP_TOKEN_KEY && body.refresh_token) {
+            await this.refreshTokenStore.set(key, body.refresh_token);
+        }
+        return {
+            accessToken: body.access_token,
+            expiresAt: typeof body.expires_in === 'number' ? Date.now() + body.expires_in * 1000 : undefined
+        };
+    }
+}
+
+export {
+    TWITCH_TOKEN_URL,
+    OAuthTokenProvider,
+    RefreshTokenStore,
+    MemoryRefreshTokenStore,
+    TokenProviderOptions,
+    TwitchOAuthTokenProvider
+}
@@ -1,4 +1,4 @@
-import {WebhookType, WebhookTypeEndpoint} from "./config";
+import {WebhookTransport, WebhookType, WebhookTypeEndpoint} from "./config";
 import {WebhookPersistenceObject} from "./persistence";
 import {TwitchWebhookManager, WebhookId} from "./webhooks";
 import {
@@ -9,6 +9,30 @@ import {
     UserFollowsSubParams
 } from "./payload_types";
 
+// A webhook as shown by the CLI and the admin routes. The secret is deliberately left out.
+type WebhookDescription = {
+    id: string,
+    type: string,
+    transport: WebhookTransport,
+    params: any,
+    subscribed: boolean,
+    subscriptionStart?: string,
+    subscriptionEnd?: string,
+    expiresInSeconds?: number,
+    leaseSeconds: number,
+    eventSubIds?: string[],
+    userId?: string
+}
+
+//Responses of helix (and the hub) report the rate limit bucket; Once it is empty, requests are rejected until the reset.
+function updateRateLimit(manager: TwitchWebhookManager, headers: { [key: string]: any }) {
+    let remaining = parseInt(headers['ratelimit-remaining']);
+    let reset = parseInt(headers['ratelimit-reset']);
+    if (remaining === 0 && !isNaN(reset)) {
+        manager.rateLimitedUntil = Math.max(manager.rateLimitedUntil, reset * 1000);
+    }
+}
+
 const TIMESTAMP_REGEX = /^(\d+)-(\d+)-(\d+)T(\d+):(\d+):(\d+)\.(\d+)Z$/;
 
 //Parses date from unix timestamp; Returns undefined if the date cannot be parsed.
@@ -102,9 +126,28 @@ function getWebhookParamsFromId<T extends WebhookType>(type: T, webhookId: Webho
     }
 }
 
+function describeWebhook(webhook: WebhookPersistenceObject, now: number = Date.now()): WebhookDescription {
+    return {
+        id: webhook.id,
+        type: WebhookType[webhook.type],
+        transport: webhook.transport || WebhookTransport.WebSub,
+        params: getWebhookParamsFromId(webhook.type, webhook.id),
+        subscribed: webhook.subscribed,
+        subscriptionStart: webhook.subscriptionStart ? webhook.subscriptionStart.toISOString() : undefined,
+        subscriptionEnd: webhook.subscriptionEnd ? webhook.subscriptionEnd.toISOString() : undefined,
+        expiresInSeconds: webhook.subscriptionEnd ? Math.round((webhook.subscriptionEnd.getTime() - now) / 1000) : undefined,
+        leaseSeconds: webhook.leaseSeconds,
+        eventSubIds: webhook.eventSubIds,
+        userId: webhook.userId
+    };
+}
+
 export {
     unixTimestampToDate,
     getEndpointPath,
     getCallbackUrl,
-    getWebhookParamsFromId
+    getWebhookParamsFromId,
+    describeWebhook,
+    updateRateLimit,
+    WebhookDescription
 }
\ No newline at end of file
@@ -0,0 +1,182 @@
+/*
+* Runtime validation of notification payloads against the types declared in payload_types.ts.
+* convertPayload only converts timestamps; Without validation, a missing field (or a schema change on twitch's side)
+* reaches listeners as undefined. Fields that aren't declared are kept as they are.
+* */
+
+import {WebhookType} from "./config";
+import {PayloadValidationError} from "./errors";
+import {unixTimestampToDate} from "./util";
+
+// 'strict' drops invalid payloads (and emits a PayloadValidationError as 'error'); 'lenient' logs the error and
+// dispatches the payload anyway; 'off' skips validation. In both strict and lenient mode, the error is emitted as
+// 'payloadValidationFailed' too.
+type PayloadValidationMode = 'strict' | 'lenient' | 'off';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'string[]' | Schema;
+type FieldSpec = FieldType | { type: FieldType, optional: true };
+type Schema = { [field: string]: FieldSpec };
+
+function optional(type: FieldType): FieldSpec {
+    return {type: type, optional: true};
+}
+
+const MODERATOR_EVENT_DATA_SCHEMA: Schema = {
+    broadcaster_id: 'string',
+    broadcaster_name: 'string',
+    user_id: 'string',
+    user_name: 'string'
+};
+
+const MODERATOR_CHANGE_EVENT_SCHEMA: Schema = {
+    id: 'string',
+    event_type: 'string',
+    event_timestamp: 'date',
+    version: 'string',
+    event_data: MODERATOR_EVENT_DATA_SCHEMA
+};
+
+const PAYLOAD_SCHEMAS: { [type: number]: Schema } = {
+    [WebhookType.UserFollows]: {
+        from_id: 'string',
+        from_name: 'string',
+        to_id: 'string',
+        to_name: 'string',
+        followed_at: 'date'
+    },
+    [WebhookType.StreamChanged]: {
+        id: 'string',
+        user_id: 'string',
+        user_name: 'string',
+        game_id: 'string',
+        community_ids: optional('string[]'), // Communities were removed by twitch; Not every notification has them.
+        type: 'string',
+        title: 'string',
+        viewer_count: 'number',
+        started_at: 'date',
+        language: 'string',
+        thumbnail_url: 'string'
+    },
+    [WebhookType.UserChanged]: {
+        id: 'string',
+        login: 'string',
+        display_name: 'string',
+        type: 'string',
+        broadcaster_type: 'string',
+        description: 'string',
+        profile_image_url: 'string',
+        offline_image_url: 'string',
+        view_count: 'number'
+    },
+    [WebhookType.ExtensionTransactionCreated]: {
+        id: 'string',
+        timestamp: 'date',
+        broadcaster_id: 'string',
+        broadcaster_name: 'string',
+        user_id: 'string',
+        user_name: 'string',
+        product_type: 'string',
+        product_data: {
+            domain: 'string',
+            broadcast: 'boolean',
+            expiration: 'string',
+            sku: 'string',
+            cost: {
+                amount: 'number',
+                type: 'string'
+            },
+            displayName: 'string',
+            inDevelopment: 'boolean'
+        }
+    },
+    [WebhookType.ModeratorChange]: MODERATOR_CHANGE_EVENT_SCHEMA,
+    [WebhookType.ChannelBanChange]: MODERATOR_CHANGE_EVENT_SCHEMA,
+    [WebhookType.Subscription]: {
+        id: 'string',
+        event_type: 'string',
+        event_timestamp: 'date',
+        version: 'string',
+        event_data: {
+            broadcaster_id: 'string',
+            broadcaster_name: 'string',
+            is_gift: 'boolean',
+            plan_name: 'string',
+            tier: 'string',
+            user_id: 'string',
+            user_name: 'string',
+            message: optional('string')
+        }
+    }
+};
+
+function describeValue(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? 'invalid date' : 'date';
+    }
+    return typeof value;
+}
+
+function isOfType(type: 'string' | 'number' | 'boolean' | 'date' | 'string[]', value: any): boolean {
+    switch (type) {
+        case 'date':
+            //Twitch sends timestamps as strings; Converted payloads have Date objects.
+            if (typeof value === 'string') {
+                return unixTimestampToDate(value) !== undefined;
+            }
+            return value instanceof Date && !isNaN(value.getTime());
+        case 'string[]':
+            return Array.isArray(value) && value.every((x: any) => typeof x === 'string');
+        case 'number':
+            return typeof value === 'number' && !isNaN(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+//Throws a PayloadValidationError for the first field that doesn't match the schema.
+function validateObject(type: WebhookType, schema: Schema, value: any, path: string): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new PayloadValidationError(type, path, 'object', describeValue(value));
+    }
+
+    for (let field of Object.keys(schema)) {
+        let spec = schema[field];
+        let fieldType = typeof spec === 'object' && spec.optional ? (<{ type: FieldType }>spec).type : <FieldType>spec;
+        let fieldValue = value[field];
+        let fieldPath = `${path}.${field}`;
+        if (fieldValue === undefined && typeof spec === 'object' && spec.optional) {
+            continue;
+        }
+
+        if (typeof fieldType === 'object') {
+            validateObject(type, fieldType, fieldValue, fieldPath);
+        } else if (!isOfType(fieldType, fieldValue)) {
+            let actual = fieldType === 'date' && typeof fieldValue === 'string' ? JSON.stringify(fieldValue) : describeValue(fieldValue);
+            throw new PayloadValidationError(type, fieldPath, fieldType, actual);
+        }
+    }
+}
+
+//Validates payload data, as twitch sent it or as converted by convertPayload; Throws a PayloadValidationError if it
+//doesn't match its type.
+function validatePayloadData(type: WebhookType, data: any): void {
+    if (type === WebhookType.StreamChanged && data === undefined) {
+        //The stream went offline.
+        return;
+    }
+    let schema = PAYLOAD_SCHEMAS[type];
+    if (schema) {
+        validateObject(type, schema, data, 'data');
+    }
+}
+
+export {
+    PayloadValidationMode,
+    validatePayloadData
+}
@@ -0,0 +1,55 @@
+/*
+* Code for verifying that notifications were sent by twitch, and are not being replayed.
+* */
+
+import * as crypto from "crypto";
+import {WebhookId} from "./webhooks";
+import {SignatureVerificationError, StaleNotificationError} from "./errors";
+
+// Algorithms twitch may name in the X-Hub-Signature prefix.
+const SUPPORTED_SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha512'];
+
+//Compares two strings in constant time (for strings of the same length), so signatures can't be guessed byte by byte.
+function timingSafeEqualStrings(expected: string, actual: string): boolean {
+    let expectedBuffer = Buffer.from(expected, 'utf8');
+    let actualBuffer = Buffer.from(actual, 'utf8');
+    return expectedBuffer.length === actualBuffer.length && crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+//Verifies an X-Hub-Signature header ("<algorithm>=<hex digest>") against the body.
+//Throws a SignatureVerificationError if the signature is missing, uses an unsupported algorithm, or doesn't match.
+function verifyHubSignature(secret: string, body: Buffer, signatureHeader: string | undefined, webhookId?: WebhookId): void {
+    if (!signatureHeader) {
+        throw new SignatureVerificationError('missing', webhookId);
+    }
+
+    let separatorIndex = signatureHeader.indexOf('=');
+    let algorithm = signatureHeader.substring(0, separatorIndex).toLowerCase();
+    if (separatorIndex === -1 || SUPPORTED_SIGNATURE_ALGORITHMS.indexOf(algorithm) === -1) {
+        throw new SignatureVerificationError('unsupported_algorithm', webhookId);
+    }
+
+    let digest = crypto.createHmac(algorithm, secret).update(body).digest('hex');
+    if (!timingSafeEqualStrings(digest, signatureHeader.substring(separatorIndex + 1).toLowerCase())) {
+        throw new SignatureVerificationError('mismatch', webhookId);
+    }
+}
+
+//Throws a StaleNotificationError if the notification timestamp is missing, unparseable or older than the tolerance.
+function checkNotificationAge(timestampHeader: string | undefined, toleranceSeconds: number, webhookId?: WebhookId): void {
+    let timestamp = timestampHeader ? new Date(timestampHeader) : undefined;
+    if (!timestamp || isNaN(timestamp.getTime())) {
+        throw new StaleNotificationError(toleranceSeconds, undefined, webhookId);
+    }
+
+    if (Date.now() - timestamp.getTime() > toleranceSeconds * 1000) {
+        throw new StaleNotificationError(toleranceSeconds, timestamp, webhookId);
+    }
+}
+
+export {
+    SUPPORTED_SIGNATURE_ALGORITHMS,
+    timingSafeEqualStrings,
+    verifyHubSignature,
+    checkNotificationAge
+}
@@ -1,32 +1,59 @@
-import {NextFunction} from "express";
-import * as express from "express";
+import {Application} from "express";
 import * as crypto from "crypto";
-import concat = require("concat-stream");
-import {createErrorFromResponse, SubscriptionDeniedError} from "./errors";
+import {
+    createErrorFromResponse,
+    PayloadValidationError,
+    SignatureVerificationError,
+    StaleNotificationError
+} from "./errors";
 import {EventEmitter} from "events";
 import {IResubscribeable, WebhookRenewalScheduler} from "./scheduling";
 import {
     createWebhookPersistenceObject,
-    getIdFromTypeAndParams,
+    getWebhookUserId,
     MemoryBasedTwitchWebhookPersistenceManager,
     WebhookPersistenceObject
 } from "./persistence";
 import {
     WebhookType,
     WebhookOptions,
+    WebhookTransport,
     TwitchWebhookManagerConfig,
-    TwitchWebhookManagerConfig_Internal
+    TwitchWebhookManagerConfig_Internal,
+    GetOAuthTokenCallback,
+    RefreshOAuthTokenCallback
 } from "./config";
 import got from 'got';
 import {
     ChannelBanChangedSubParams,
-    convertPayload, ExtensionTransactionCreatedSubParams, ModeratorChangedSubParams,
+    ExtensionTransactionCreatedSubParams, ModeratorChangedSubParams,
     StreamChangedSubParams, SubscriptionSubParams,
     UserChangedSubParams,
     UserFollowsSubParams,
     WebhookPayload
 } from "./payload_types";
-import {getCallbackUrl, getEndpointPath, getWebhookParamsFromId} from "./util";
+import {getCallbackUrl, getEndpointPath, updateRateLimit} from "./util";
+import {
+    createEventSubSubscriptions,
+    deleteEventSubSubscriptions,
+    getEventSubCondition,
+    TWITCH_EVENTSUB_URL
+} from "./eventsub";
+import {DEFAULT_RETRY_POLICY, withRetry} from "./retry";
+import {MemoryLRUNotificationIdStore} from "./deduplication";
+import {WebhookRequest, WebhookRequestHandler, WebhookResponse} from "./request_handler";
+import {expressAdapter} from "./adapters";
+import {RenewalReason, WebhookMetrics} from "./metrics";
+import {JournalQuery, replayJournal} from "./journal";
+import {MessageStream, MessageStreamOptions} from "./streams";
+import {Readable} from "stream";
+import {DeadLetter, HandlerOptions, HandlerRegistry, MemoryDeadLetterStore, MessageHandler} from "./handlers";
+import {MemoryStreamStateStore, StreamLifecycleTracker, StreamState, StreamStateChange} from "./stream_state";
+import {OAuthTokenProvider} from "./tokens";
+import {BulkSubscriptionOptions, BulkSubscriptionResult, subscribeMany, SubscriptionRequest} from "./bulk";
+import {reconcile, ReconcileOptions, ReconciliationReport, TWITCH_WEBHOOK_SUBSCRIPTIONS_URL} from "./reconciliation";
+import {rotateSecret, SecretRotationOptions, SecretRotationProgress, SecretRotationResult} from "./secrets";
+import {migrateAll, WebhookMigrationRegistry} from "./migrations";
 
 const TWITCH_HUB_URL = "https://api.twitch.tv/helix/webhooks/hub";
 type WebhookId = string;
@@ -57,6 +84,63 @@ declare interface TwitchWebhookManager {
 
     on(event: 'unsubscribed', callback: (webhookId: WebhookId) => void): this
 
+    // A scheduled renewal failed, and all retries were exhausted. The subscription will lapse.
+    emit(event: 'renewalFailed', webhookId: WebhookId, e: Error): this
+
+    on(event: 'renewalFailed', callback: (webhookId: WebhookId, e: Error) => void): this
+
+    // A notification was rejected because its signature or timestamp didn't verify. Useful for security monitoring.
+    emit(event: 'verificationFailed', e: SignatureVerificationError | StaleNotificationError, webhookId: WebhookId): this
+
+    on(event: 'verificationFailed', callback: (e: SignatureVerificationError | StaleNotificationError, webhookId: WebhookId) => void): this
+
+    // A WebSub payload didn't match its declared type. In lenient mode, it was dispatched anyway (see validation.ts).
+    emit(event: 'payloadValidationFailed', e: PayloadValidationError, webhookId: WebhookId, dispatched: boolean): this
+
+    on(event: 'payloadValidationFailed', callback: (e: PayloadValidationError, webhookId: WebhookId, dispatched: boolean) => void): this
+
+    // EventSub only; Twitch revoked the subscription (e.g. the user revoked authorization). The webhook is removed.
+    emit(event: 'revoked', webhookId: WebhookId, reason: string): this
+
+    on(event: 'revoked', callback: (webhookId: WebhookId, reason: string) => void): this
+
+    // Persisted webhooks were reconciled against twitch's active subscriptions.
+    emit(event: 'reconciled', report: ReconciliationReport): this
+
+    on(event: 'reconciled', callback: (report: ReconciliationReport) => void): this
+
+    // A registered handler failed on every attempt; The payload was moved to the dead-letter store.
+    emit(event: 'deadLettered', deadLetter: DeadLetter): this
+
+    on(event: 'deadLettered', callback: (deadLetter: DeadLetter) => void): this
+
+    // rotateSecret() finished with a webhook (whether its secret was rotated or not).
+    emit(event: 'secretRotationProgress', progress: SecretRotationProgress): this
+
+    on(event: 'secretRotationProgress', callback: (progress: SecretRotationProgress) => void): this
+
+    // The webhook couldn't be resubscribed to with its new secret; It keeps its old secret.
+    emit(event: 'secretRotationFailed', webhookId: WebhookId, e: Error): this
+
+    on(event: 'secretRotationFailed', callback: (webhookId: WebhookId, e: Error) => void): this
+
+    //Stream lifecycle events, derived from StreamChanged notifications (see stream_state.ts).
+    emit(event: 'streamOnline', webhookId: WebhookId, change: StreamStateChange<StreamState | undefined>): boolean;
+
+    emit(event: 'streamOffline', webhookId: WebhookId, change: StreamStateChange<StreamState>): boolean;
+
+    emit(event: 'streamTitleChanged', webhookId: WebhookId, change: StreamStateChange<string | undefined>): boolean;
+
+    emit(event: 'streamGameChanged', webhookId: WebhookId, change: StreamStateChange<string | undefined>): boolean;
+
+    on(event: 'streamOnline', callback: (webhookId: WebhookId, change: StreamStateChange<StreamState | undefined>) => void): this;
+
+    on(event: 'streamOffline', callback: (webhookId: WebhookId, change: StreamStateChange<StreamState>) => void): this;
+
+    on(event: 'streamTitleChanged', callback: (webhookId: WebhookId, change: StreamStateChange<string | undefined>) => void): this;
+
+    on(event: 'streamGameChanged', callback: (webhookId: WebhookId, change: StreamStateChange<string | undefined>) => void): this;
+
     //Events for specific event types.
     emit(event: 'userFollows', webhookId: WebhookId, payload: WebhookPayload<WebhookType.UserFollows>): boolean;
 
@@ -90,7 +174,13 @@ declare interface TwitchWebhookManager {
 
 class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
     readonly config: TwitchWebhookManagerConfig_Internal;
+    readonly requestHandler: WebhookRequestHandler;
+    readonly metrics: WebhookMetrics;
+    readonly handlers: HandlerRegistry;
+    readonly streamLifecycle: StreamLifecycleTracker;
     renewalInterval: NodeJS.Timeout | undefined;
+    rateLimitedUntil: number = 0; // Epoch milliseconds until which twitch reported the rate limit bucket as empty
+    private messageStreams: Set<MessageStream<any>> = new Set<MessageStream<any>>();
 
     constructor(config: TwitchWebhookManagerConfig) {
         super({captureRejections: true});
@@ -98,6 +188,16 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
             secret: crypto.randomBytes(90).toString("hex"), // Note; the max length of this secret is 200; The default is 180 characters.
             persistenceManager: new MemoryBasedTwitchWebhookPersistenceManager(),
             hubUrl: TWITCH_HUB_URL,
+            transport: WebhookTransport.WebSub,
+            eventSubUrl: TWITCH_EVENTSUB_URL,
+            webhookSubscriptionsUrl: TWITCH_WEBHOOK_SUBSCRIPTIONS_URL,
+            deduplicationWindowSeconds: 600,
+            notificationIdStore: new MemoryLRUNotificationIdStore(),
+            deadLetterStore: new MemoryDeadLetterStore(),
+            payloadValidation: 'lenient',
+            streamStateStore: new MemoryStreamStateStore(),
+            secretGracePeriodSeconds: 600,
+            migrations: new WebhookMigrationRegistry(),
             logger: {
                 debug: (_1: any, ..._2: any[]) => {
                 },
@@ -106,9 +206,17 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
                 error: (_1: any, ..._2: any[]) => {
                 }
             }
-        }, config);
-
-        this.addWebhookEndpoints();
+        }, config, {
+            retryPolicy: Object.assign({}, DEFAULT_RETRY_POLICY, config.retryPolicy)
+        }, getTokenCallbacks(config));
+
+        this.metrics = new WebhookMetrics(this, this.config.metrics && this.config.metrics.registry);
+        this.requestHandler = new WebhookRequestHandler(this);
+        this.handlers = new HandlerRegistry(this);
+        this.streamLifecycle = new StreamLifecycleTracker(this);
+        if (this.config.app) {
+            this.addWebhookEndpoints(this.config.app);
+        }
 
         if (config.renewalScheduler) {
             if (config.renewalScheduler.getMetaData().runInterval !== Infinity) {
@@ -119,9 +227,25 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
     }
 
     async init(): Promise<void> {
+        let migrated = await migrateAll(this.config.persistenceManager, this.config.migrations);
+        if (migrated > 0) {
+            this.config.logger.info(`Migrated ${migrated} webhooks to schema version ${this.config.migrations.latestVersion}.`);
+        }
+
+        let reconciled: ReconciliationReport | undefined;
+        if (this.config.reconcileOnInit) {
+            reconciled = await this.reconcile(this.config.reconcileOnInit === true ? {} : this.config.reconcileOnInit);
+        }
+
         if (this.config.renewalScheduler) {
             this.config.logger.info('Initializing renewal scheduler:');
             let webhooks = await this.config.persistenceManager.getAllWebhooks();
+            if (reconciled) {
+                //Reconciling already scheduled every webhook the hub lists, and the ones it failed to resubscribe to
+                //(resubscribed ones are scheduled once verified).
+                let skipped = reconciled.skipped;
+                webhooks = webhooks.filter(x => skipped.indexOf(x.id) !== -1);
+            }
             this.config.logger.debug('Adding webhooks to renewal scheduler: ', webhooks);
             for (let webhook of webhooks) {
                 this.config.renewalScheduler.addToScheduler(webhook);
@@ -129,6 +253,80 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
         }
     }
 
+    // Compares persisted webhooks with the subscriptions twitch reports as active: Webhooks missing upstream are
+    // resubscribed to, and orphaned upstream subscriptions pointing at our callback URLs are reported (or unsubscribed from).
+    public async reconcile(options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+        this.config.logger.info('Reconciling webhooks against active subscriptions.');
+        let report = await reconcile(this, options);
+        this.config.logger.debug('Reconciliation report: ', report);
+        this.emit('reconciled', report);
+        return report;
+    }
+
+    // Resubscribes to every webhook (or options.webhookIds) with a new secret. The previous secrets are still accepted
+    // for the grace period, so notifications signed before twitch switched over aren't rejected.
+    public async rotateSecret(options: SecretRotationOptions = {}): Promise<SecretRotationResult> {
+        return rotateSecret(this, options);
+    }
+
+    // Re-emits journaled notifications through the 'message' and typed events, with replayed set on each payload.
+    // Resolves with the number of notifications replayed. Requires a journal to be configured.
+    public async replay(query: JournalQuery = {}): Promise<number> {
+        if (!this.config.journal) {
+            throw new Error('No notification journal is configured!');
+        }
+        this.config.logger.info('Replaying journaled notifications: ', query);
+        return replayJournal(this, this.config.journal, query);
+    }
+
+    // Returns an async iterable of the payloads matching the options, buffered until they are consumed.
+    // Breaking out of a for await...of loop (or calling close()) stops the stream; destroy() ends all streams.
+    public messages<T extends WebhookType = WebhookType>(options: MessageStreamOptions<T> = {}): MessageStream<T> {
+        let stream = new MessageStream<T>(this, options, (closed) => this.messageStreams.delete(closed));
+        this.messageStreams.add(stream);
+        return stream;
+    }
+
+    // Like messages(), but as an object-mode Readable.
+    public messageStream<T extends WebhookType = WebhookType>(options: MessageStreamOptions<T> = {}): Readable {
+        return this.messages(options).toReadable();
+    }
+
+    // Registers a handler with at-least-once delivery: If it rejects, it is retried with backoff, and once its attempts
+    // are exhausted the payload is moved to the dead-letter store. The name identifies the handler's dead letters.
+    public registerHandler<T extends WebhookType = WebhookType>(name: string, handler: MessageHandler<T>, options: HandlerOptions<T> = {}): void {
+        this.handlers.register(name, handler, options);
+    }
+
+    public unregisterHandler(name: string): boolean {
+        return this.handlers.unregister(name);
+    }
+
+    public async listDeadLetters(): Promise<DeadLetter[]> {
+        return this.config.deadLetterStore.getAll();
+    }
+
+    // Hands a dead letter to its handler again; Resolves to true if the handler succeeded (and the dead letter was removed).
+    public async retryDeadLetter(id: string): Promise<boolean> {
+        return this.handlers.retryDeadLetter(id);
+    }
+
+    // Removes the dead letters with the given ids, or all dead letters; Resolves with the number removed.
+    public async purgeDeadLetters(ids?: string[]): Promise<number> {
+        let deadLetters = await this.config.deadLetterStore.getAll();
+        let purged = deadLetters.filter(x => !ids || ids.indexOf(x.id) !== -1);
+        for (let deadLetter of purged) {
+            await this.config.deadLetterStore.remove(deadLetter.id);
+        }
+        return purged.length;
+    }
+
+    // Handles a request made to one of the webhook callback URLs, independent of any HTTP framework.
+    // See adapters.ts for adapters for express, node's http module, Koa and Fastify.
+    public handleRequest(request: WebhookRequest): Promise<WebhookResponse> {
+        return this.requestHandler.handle(request);
+    }
+
     // Safely shuts down all related/owned function of the webhook manager - no data is necessarily destroyed,
     // Although it depends on the behaviour of the persistence manager
     public async destroy() {
@@ -149,6 +347,27 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
             this.config.logger.info('Destroying persistence manager.');
             await this.config.persistenceManager.destroy();
         }
+
+        this.config.logger.info('Destroying notification id store.');
+        await this.config.notificationIdStore.destroy();
+
+        if (this.config.journal) {
+            this.config.logger.info('Destroying notification journal.');
+            await this.config.journal.destroy();
+        }
+
+        this.config.logger.info('Destroying handlers and dead-letter store.');
+        await this.handlers.destroy();
+        await this.config.deadLetterStore.destroy();
+
+        this.config.logger.info('Destroying stream state store.');
+        await this.config.streamStateStore.destroy();
+
+        for (let stream of Array.from(this.messageStreams)) {
+            stream.close();
+        }
+
+        this.metrics.destroy();
     }
 
     //Unsubscribes from all webhook endpoints.
@@ -269,10 +488,16 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
         return await this.subscribeOrGetSubscription(WebhookType.Subscription, params, config, subParams.broadcaster_id);
     }
 
+    // Subscribes to all requests with bounded concurrency, pausing while the rate limit bucket is empty.
+    // Resolves with a result per request (in order), once every request has succeeded or failed.
+    public async subscribeMany(requests: SubscriptionRequest[], options: BulkSubscriptionOptions = {}): Promise<BulkSubscriptionResult[]> {
+        return subscribeMany(this, requests, options);
+    }
+
     public async unsubscribe(webhookId: WebhookId): Promise<void> {
         let webhook = await this.config.persistenceManager.getWebhookById(webhookId);
         if (webhook) {
-            this.unsubscribePersistenceObject(webhook);
+            await this.unsubscribePersistenceObject(webhook);
         } else {
             throw Error(`Webhook with id ${webhookId} could not be found!`);
         }
@@ -300,16 +525,38 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
         }
     }
 
-    public async resubscribePersistenceObject(webhook: WebhookPersistenceObject): Promise<void> {
+    // Unsubscribes from a hub subscription that has no persisted webhook (e.g. an orphan found while reconciling).
+    public async unsubscribeFromHubSubscription(callback: string, topic: string): Promise<void> {
+        let hubParams: HubParams = {
+            "hub.callback": callback,
+            "hub.mode": 'unsubscribe',
+            "hub.topic": topic,
+            "hub.lease_seconds": 0,
+            "hub.secret": ''
+        };
+        await withRetry(this.config.retryPolicy, async () => doHubRequest(this, hubParams, await this.config.getOAuthToken()));
+    }
+
+    public async resubscribePersistenceObject(webhook: WebhookPersistenceObject, reason: RenewalReason = 'scheduled'): Promise<void> {
         this.config.logger.info(`Resubbing to webhook: ${webhook.id}`);
         this.config.logger.debug(`Resubbing to: `, webhook);
         //We do not need to check if the webhook is subscribed;
         //If the webhook is subscribed already, it will simply be renewed.
-        await this.changeSub(webhook, true);
+        try {
+            await this.changeSub(webhook, true);
+        } catch (e) {
+            this.metrics.renewals.inc({reason: reason, outcome: 'failure'});
+            throw e;
+        }
+        this.metrics.renewals.inc({reason: reason, outcome: 'success'});
     }
 
     private async subscribeOrGetSubscription(type: WebhookType, params: Map<string, string>, config: WebhookOptions, associatedUser?: string): Promise<WebhookId> {
-        let webhook = createWebhookPersistenceObject(this, type, params, config);
+        let webhook = createWebhookPersistenceObject(this, type, params, config, associatedUser);
+        if (webhook.transport === WebhookTransport.EventSub) {
+            //Throws before anything is persisted if the parameters can't be expressed through EventSub.
+            getEventSubCondition(webhook);
+        }
 
         let oldWebhook = await this.config.persistenceManager.getWebhookById(webhook.id);
         if (oldWebhook) {
@@ -318,11 +565,22 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
         }
 
         await this.config.persistenceManager.persistWebhook(webhook);
-        await this.changeSub(webhook, true, associatedUser);
+        await this.changeSub(webhook, true);
         return webhook.id;
     }
 
-    private async changeSub(webhook: WebhookPersistenceObject, subscribe: boolean, userId?: string): Promise<void> {
+    private async changeSub(webhook: WebhookPersistenceObject, subscribe: boolean): Promise<void> {
+        return withRetry(this.config.retryPolicy, () => this.changeSubOnce(webhook, subscribe),
+            (e, attempt, delay) => {
+                this.config.logger.error(`Attempt ${attempt} to ${subscribe ? 'subscribe to' : 'unsubscribe from'} ${webhook.id} failed; Retrying in ${Math.round(delay)}ms.`, e);
+            });
+    }
+
+    private async changeSubOnce(webhook: WebhookPersistenceObject, subscribe: boolean): Promise<void> {
+        if (webhook.transport === WebhookTransport.EventSub) {
+            return this.changeEventSub(webhook, subscribe);
+        }
+
         let callbackUrl = getCallbackUrl(this, webhook);
         let hubParams: HubParams = {
             "hub.callback": callbackUrl,
@@ -332,231 +590,114 @@ class TwitchWebhookManager extends EventEmitter implements IResubscribeable{
             "hub.secret": webhook.secret
         };
 
-        let token = await this.config.getOAuthToken(userId);
-        return doHubRequest(webhook, this, hubParams, token);
+        //Subscribes, renewals and unsubscribes all use the token of the user owning the webhook.
+        let token = await this.config.getOAuthToken(getWebhookUserId(webhook));
+        return doHubRequest(this, hubParams, token);
     }
 
-    //Hooks configured endpoints into the express app.
-    private addWebhookEndpoints() {
-        let app = this.config.app;
+    private async changeEventSub(webhook: WebhookPersistenceObject, subscribe: boolean): Promise<void> {
+        //EventSub requires an app access token.
+        let token = await this.config.getOAuthToken();
+        if (!subscribe) {
+            await deleteEventSubSubscriptions(webhook, this, token);
+            //There is no unsubscription challenge for EventSub; We're done as soon as twitch accepts the deletion.
+            await this.config.persistenceManager.deleteWebhook(webhook.id);
+            this.config.logger.info(`Deleted EventSub subscriptions for webhook ${webhook.id}`);
+            this.emit('unsubscribed', webhook.id);
+            return;
+        }
 
-        // Middleware that will catch requests and validate that they match up with the hub secret
-        let verification_middleware = getVerificationMiddleware(this);
+        //Decided up front; The verification of the first subscription may arrive (and mark the webhook as subscribed)
+        //while the others are still being created.
+        let previousWebhook = await this.config.persistenceManager.getWebhookById(webhook.id);
+        let renewing = !!previousWebhook && previousWebhook.subscribed;
+
+        let ids = await createEventSubSubscriptions(webhook, this, getCallbackUrl(this, webhook), token);
+        let storedWebhook = await this.config.persistenceManager.getWebhookById(webhook.id) || webhook;
+        storedWebhook.eventSubIds = (storedWebhook.eventSubIds || [])
+            .concat(<string[]>ids.filter(id => id !== undefined && (storedWebhook.eventSubIds || []).indexOf(id) === -1));
+
+        if (renewing) {
+            //EventSub subscriptions don't expire; A renewal recreates anything that went missing (existing
+            //subscriptions give a 409), then the lease is only used to schedule the next check.
+            storedWebhook.subscriptionStart = new Date();
+            storedWebhook.subscriptionEnd = new Date(storedWebhook.subscriptionStart.getTime() + storedWebhook.leaseSeconds * 1000);
+            await this.config.persistenceManager.saveWebhook(storedWebhook);
+            if (this.config.renewalScheduler) {
+                this.config.renewalScheduler.addToScheduler(storedWebhook);
+            }
+        } else {
+            await this.config.persistenceManager.saveWebhook(storedWebhook);
+        }
+    }
 
-        for (let type in Object.keys(WebhookType).filter(x => !isNaN(Number(x)))) {
+    //Hooks configured endpoints into the express app.
+    private addWebhookEndpoints(app: Application) {
+        let middleware = expressAdapter(this);
+        for (let type of Object.keys(WebhookType).filter(x => !isNaN(Number(x)))) {
             let endpoint_path = getEndpointPath(this.config.base_path, Number(type));
             this.config.logger.info(`Listening on endpoint: ${endpoint_path}`);
-            //Configure middleware
-            app.use(endpoint_path, verification_middleware);
-            app.use(endpoint_path, express.urlencoded({
-                extended: false
-            }));
-
-            app.post(endpoint_path, async (req, res) => {
-                let webhookId = getIdFromTypeAndParams(Number(type), new URL(req.originalUrl, `https://${req.headers.host}`).search);
-                let webhook = await this.config.persistenceManager.getWebhookById(webhookId);
-                if (webhook) {
-                    res.status(200);
-                    res.end();
-
-                    let webhookPayload = {
-                        type: Number(type),
-                        data: convertPayload(Number(type), req.body.data[0]),
-                        subParams: getWebhookParamsFromId(Number(type), webhookId)
-                    };
-
-                    this.config.logger.debug('Got message: ', webhookPayload);
-                    this.emit('message', webhookId, webhookPayload);
-                    this.emitSpecificEvent(webhookId, webhookPayload);
-                } else {
-                    res.status(404);
-                    this.config.logger.error(`Got POST for unknown webhook URL: ${req.originalUrl}`);
-                }
-            });
-
-            app.get(endpoint_path, async (req, res) => {
-                let originalUrl = new URL(req.originalUrl, this.config.hostname);
-                if (!originalUrl.searchParams.get("hub.topic")) {
-                    throw new Error('hub.topic not found in search params.');
-                }
+            app.use(endpoint_path, middleware);
+        }
 
-                let topicURL = new URL(decodeURIComponent(<string>originalUrl.searchParams.get("hub.topic")));
-                let webhookId = getIdFromTypeAndParams(Number(type), topicURL.search);
-                let webhook = await this.config.persistenceManager.getWebhookById(webhookId);
-
-                if (webhook) {
-                    if (!originalUrl.searchParams.get("hub.mode") || originalUrl.searchParams.get("hub.mode") === "denied") {
-                        res.end();
-                        this.config.logger.error(`Subscription denied. reason: ${originalUrl.searchParams.get("hub.reason")}`);
-
-                        await this.config.persistenceManager.deleteWebhook(webhookId);
-                        this.emit('error', new SubscriptionDeniedError(webhook, originalUrl.searchParams.get("hub.reason") ? <string>originalUrl.searchParams.get("hub.reason") : 'No reason given'));
-                        return;
-                    }
-
-                    if(originalUrl.searchParams.get("hub.mode") === 'unsubscribe'){
-                        //Confirming unsubscription!
-                        await this.config.persistenceManager.deleteWebhook(webhook.id);
-                        this.config.logger.info(`Confirmed unsubscription from webhook ${webhook.id}`);
-
-                        res.setHeader("Content-Type", "text/plain");
-                        res.status(200);
-                        res.end(originalUrl.searchParams.get("hub.challenge"));
-
-                        this.emit('unsubscribed', webhook.id);
-                    } else {
-                        webhook.subscriptionStart = new Date();
-
-                        if (originalUrl.searchParams.get("hub.lease_seconds")) {
-                            webhook.subscriptionEnd = new Date(webhook.subscriptionStart.getTime() + parseInt(<string>originalUrl.searchParams.get("hub.lease_seconds")) * 1000);
-                        } else {
-                            webhook.subscriptionEnd = new Date(Date.now() + webhook.leaseSeconds * 1000); // Assume lease seconds we sent is respected.
-                        }
-
-                        webhook.subscribed = true;
-                        res.setHeader("Content-Type", "text/plain");
-                        res.status(200);
-                        res.end(originalUrl.searchParams.get("hub.challenge"));
-
-                        await this.config.persistenceManager.saveWebhook(webhook);
-                        this.config.logger.info(`Subscription for ${webhook.id} verified!`);
-                        this.config.logger.debug('Subscribed to webhook: ', webhook);
-                        this.emit("subscribed", webhookId);
-
-                        if (this.config.renewalScheduler) {
-                            this.config.logger.info(`Adding webhook ${webhook.id} to renewal scheduler`);
-                            this.config.renewalScheduler.addToScheduler(webhook);
-                        }
-                    }
-                } else {
-                    this.config.logger.error(`Got GET for unknown webhook URL: ${topicURL.href}`);
-                    res.status(404);
-                    res.end();
-                }
-            });
+        for (let path of this.requestHandler.getAdditionalPaths()) {
+            this.config.logger.info(`Serving: ${path}`);
+            app.use(path, middleware);
         }
     }
+}
 
-    private emitSpecificEvent(webhookId: WebhookId, payload: WebhookPayload<any>): void {
-        switch (payload.type) {
-            case WebhookType.UserFollows:
-                this.emit('userFollows', webhookId, payload);
-                break;
-            case WebhookType.StreamChanged:
-                this.emit('streamChanged', webhookId, payload);
-                break;
-            case WebhookType.UserChanged:
-                this.emit('userChanged', webhookId, payload);
-                break;
-            case WebhookType.ExtensionTransactionCreated:
-                this.emit('extensionTransactionCreated', webhookId, payload);
-                break;
-            case WebhookType.ModeratorChange:
-                this.emit('moderatorChangeEvent', webhookId, payload);
-                break;
-            case WebhookType.ChannelBanChange:
-                this.emit('channelBanEvent', webhookId, payload);
-                break;
-            case WebhookType.Subscription:
-                this.emit('subscriptionEvent', webhookId, payload);
-                break;
-            default:
-                break;
-        }
+//The token callbacks of the config; Taken from the token provider, unless they are given explicitly.
+function getTokenCallbacks(config: TwitchWebhookManagerConfig): { getOAuthToken: GetOAuthTokenCallback, refreshOAuthToken: RefreshOAuthTokenCallback } {
+    let provider = config.tokenProvider;
+    let getOAuthToken = config.getOAuthToken || (provider && ((userId?: string) => (<OAuthTokenProvider>provider).getOAuthToken(userId)));
+    let refreshOAuthToken = config.refreshOAuthToken || (provider && ((token: string) => (<OAuthTokenProvider>provider).refreshOAuthToken(token)));
+    if (!getOAuthToken || !refreshOAuthToken) {
+        throw new Error('Either a tokenProvider, or both getOAuthToken and refreshOAuthToken must be configured!');
     }
+    return {getOAuthToken: getOAuthToken, refreshOAuthToken: refreshOAuthToken};
 }
 
 //Do a request to the Twitch WebSub hub.
-async function doHubRequest(webhook: WebhookPersistenceObject, manager: TwitchWebhookManager, hubParams: HubParams, oAuthToken: string) {
+async function doHubRequest(manager: TwitchWebhookManager, hubParams: HubParams, oAuthToken: string) {
     let paramJson = Buffer.from(JSON.stringify(hubParams), 'utf8');
 
     manager.config.logger.debug(`Making hub request with: `, hubParams);
 
-    let resp = await got.post(manager.config.hubUrl, {
-        headers: {
-            "Authorization": `Bearer ${oAuthToken}`,
-            "Client-ID": manager.config.client_id,
-            "Content-Type": 'application/json',
-        },
-        timeout: 10000,
-        retry: 0,
-        body: paramJson
-    });
-
-    if (resp.statusCode && Math.floor(resp.statusCode / 100) === 2) {
-        return;
-    } else if (resp.statusCode === 401) {
-        //Retry
-        let resp = await got.post(manager.config.hubUrl, {
-            headers: {
-                "Authorization": `Bearer ${await manager.config.refreshOAuthToken(oAuthToken)}`,
-                "Client-ID": manager.config.client_id,
-                "Content-Type": 'application/json',
-            },
-            timeout: 10000,
-            retry: 0,
-            body: paramJson
-        });
-
-        if (resp.statusCode && Math.floor(resp.statusCode / 100) === 2) {
-            return;
+    let post = async (token: string) => {
+        let start = Date.now();
+        try {
+            let resp = await got.post(manager.config.hubUrl, {
+                headers: {
+                    "Authorization": `Bearer ${token}`,
+                    "Client-ID": manager.config.client_id,
+                    "Content-Type": 'application/json',
+                },
+                timeout: 10000,
+                retry: 0,
+                throwHttpErrors: false,
+                body: paramJson
+            });
+            manager.metrics.recordHubRequest(hubParams['hub.mode'], resp.statusCode, (Date.now() - start) / 1000);
+            updateRateLimit(manager, resp.headers);
+            return resp;
+        } catch (e) {
+            manager.metrics.recordHubRequest(hubParams['hub.mode'], 'error', (Date.now() - start) / 1000);
+            throw e;
         }
+    };
 
-        throw createErrorFromResponse(resp, resp.body) || new Error('Unknown error when doing hub request: ' + resp.body);
-    } else {
-        throw createErrorFromResponse(resp, resp.body) || new Error('Unknown error when doing hub request: ' + resp.body);
+    let resp = await post(oAuthToken);
+    if (resp.statusCode === 401) {
+        //Retry
+        resp = await post(await manager.config.refreshOAuthToken(oAuthToken));
     }
-}
-
 
-function getVerificationMiddleware(twitchWebhookManager: TwitchWebhookManager) {
-    return async function verificationMiddleware(req: express.Request, res: express.Response, next: NextFunction) {
-        // We take care of the JSON body parsing here; This is a side effect of how middleware and streams work,
-        // so we can't just use the json body parsing middleware...
-        req.pipe(concat(async (body) => {
-            if (req.header("content-type") && (<string>req.header("content-type")).includes('application/json')) {
-                req.body = JSON.parse(body.toString("utf8"));
-            }
+    if (resp.statusCode && Math.floor(resp.statusCode / 100) === 2) {
+        return;
+    }
 
-            if (req.method == 'POST') {
-                // Only POST requests matter for secret validation;
-                // GET requests are simply to validate the publishing was correct,
-                // and are not signed since it is not a notification payload.
-                if (req.header("X-Hub-Signature")) {
-                    let callback_url = new URL(req.originalUrl, `https://${req.headers.host}`);
-                    let splitPath = callback_url.pathname.split('/');
-                    let lastPath = splitPath[splitPath.length - 1];
-                    let webhook = await (twitchWebhookManager.config.persistenceManager).getWebhookById(lastPath + callback_url.search);
-
-                    let secret: string;
-                    if (webhook) {
-                        secret = webhook.secret;
-                    } else {
-                        twitchWebhookManager.config.logger.error(`Webhook ${lastPath + callback_url.search} not found.`);
-                        res.sendStatus(404);
-                        res.end();
-                        return;
-                    }
-
-                    let digest = crypto.createHmac('sha256', secret).update(body).digest('hex');
-
-                    if (digest === (<string>req.header("X-Hub-Signature")).split('=')[1]) {
-                        next();
-                    } else {
-                        twitchWebhookManager.config.logger.error("Request gave bad X-Hub-Signature; Rejecting request.");
-                        res.sendStatus(400);
-                        res.end();
-                    }
-                } else {
-                    twitchWebhookManager.config.logger.error("Request had no X-Hub-Signature header; Rejecting request.");
-                    res.sendStatus(400);
-                    res.end();
-                }
-            } else {
-                next();
-            }
-        }));
-    };
+    throw createErrorFromResponse(resp, resp.body) || new Error('Unknown error when doing hub request: ' + resp.body);
 }
 
 